@@ -0,0 +1,192 @@
+/**
+ * Headless load test, for terminals and scheduled jobs:
+ *
+ *   LOADTEST_PRIVATE_KEYS=0x..,0x.. yarn loadtest --duration 60 --tps 10 \
+ *     --max-p99-inclusion 3000 --max-failure-rate 1 --out report.json
+ *
+ * Keys are read from the environment so they don't end up in the process
+ * list or shell history. Exits 0 when every threshold holds, 1 when one is
+ * breached and 2 when the run couldn't be carried out.
+ */
+import { writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import {
+  LoadRunner,
+  LoadTestResult,
+  LoadThresholds,
+  checkThresholds,
+  failureRate,
+} from "@/lib/loadRunner";
+import {
+  DEFAULT_LOAD_PROFILE,
+  LOAD_PROFILE_LABELS,
+  LoadProfile,
+  LoadProfileKind,
+  validateLoadProfile,
+} from "@/lib/loadSchedule";
+import { getNetwork } from "@/lib/networks";
+import { describeRun } from "@/lib/runReport";
+import { ROUTING_LABELS, RoutingMode } from "@/lib/txSender";
+
+const USAGE = `Usage: yarn loadtest [options]
+
+  --network <name>            Network profile the defaults below come from (the first)
+  --rpc <url>                 RPC to send through (the profile's)
+  --registry <url>            Registry JSON-RPC (the profile's)
+  --frags <url>               Frag stream WebSocket (the profile's)
+  --duration <s>              How long to send for (60)
+  --tps <n>                   Target TPS (${DEFAULT_LOAD_PROFILE.targetTps})
+  --profile <kind>            ${Object.keys(LOAD_PROFILE_LABELS).join(", ")} (constant)
+  --ramp <s>                  Ramp up and down time for the ramp profile
+  --steps <n>                 Steps for the step profile
+  --spike-tps <n>             Spike rate for the spike profile
+  --max-in-flight <n>         Cap on txs waiting for a receipt (no cap)
+  --routing <mode>            ${Object.keys(ROUTING_LABELS).join(", ")} (rpc)
+  --settle <s>                Time to keep tracking txs after sending (30)
+  --out <file>                Where to write the JSON result (stdout)
+  --max-p50-preconf <ms>      Thresholds; the run fails when one is exceeded
+  --max-p99-preconf <ms>
+  --max-p50-inclusion <ms>
+  --max-p99-inclusion <ms>
+  --max-failure-rate <pct>
+
+Keys to send from go in LOADTEST_PRIVATE_KEYS, comma separated.`;
+
+const EXIT_BREACHED = 1;
+const EXIT_ERROR = 2;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(EXIT_ERROR);
+}
+
+function number(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isFinite(parsed) || parsed < 0) fail(`--${name} must be a non-negative number`);
+  return parsed;
+}
+
+async function main() {
+  const { values } = parseArgs({
+    options: {
+      network: { type: "string" },
+      rpc: { type: "string" },
+      registry: { type: "string" },
+      frags: { type: "string" },
+      duration: { type: "string", default: "60" },
+      tps: { type: "string" },
+      profile: { type: "string", default: "constant" },
+      ramp: { type: "string" },
+      steps: { type: "string" },
+      "spike-tps": { type: "string" },
+      "max-in-flight": { type: "string" },
+      routing: { type: "string", default: "rpc" },
+      settle: { type: "string", default: "30" },
+      out: { type: "string" },
+      "max-p50-preconf": { type: "string" },
+      "max-p99-preconf": { type: "string" },
+      "max-p50-inclusion": { type: "string" },
+      "max-p99-inclusion": { type: "string" },
+      "max-failure-rate": { type: "string" },
+      help: { type: "boolean", short: "h" },
+    },
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+
+  const network = getNetwork(values.network);
+  if (!network) fail(`Unknown network ${values.network}`);
+  const rpcUrl = values.rpc ?? network.rpcUrl;
+  if (!rpcUrl) fail("No RPC URL given");
+  const privateKeys = (process.env.LOADTEST_PRIVATE_KEYS ?? "")
+    .split(",")
+    .map((key) => key.trim())
+    .filter(Boolean);
+  if (privateKeys.length === 0) fail("LOADTEST_PRIVATE_KEYS is empty");
+
+  if (!(values.profile! in LOAD_PROFILE_LABELS)) fail(`Unknown profile ${values.profile}`);
+  if (!(values.routing! in ROUTING_LABELS)) fail(`Unknown routing ${values.routing}`);
+
+  const durationS = number(values.duration, "duration")!;
+  const ramp = number(values.ramp, "ramp");
+  const steps = number(values.steps, "steps");
+  const profile: LoadProfile = {
+    ...DEFAULT_LOAD_PROFILE,
+    kind: values.profile as LoadProfileKind,
+    durationS,
+    targetTps: number(values.tps, "tps") ?? DEFAULT_LOAD_PROFILE.targetTps,
+    rampUpS: ramp ?? Math.min(DEFAULT_LOAD_PROFILE.rampUpS, durationS / 4),
+    rampDownS: ramp ?? Math.min(DEFAULT_LOAD_PROFILE.rampDownS, durationS / 4),
+    steps: steps ?? DEFAULT_LOAD_PROFILE.steps,
+    // Spread the steps over the whole run
+    stepS: durationS / (steps ?? DEFAULT_LOAD_PROFILE.steps),
+    spikeTps: number(values["spike-tps"], "spike-tps") ?? DEFAULT_LOAD_PROFILE.spikeTps,
+    spikeAtS: durationS / 2,
+    spikeS: Math.min(DEFAULT_LOAD_PROFILE.spikeS, durationS / 4),
+    maxInFlight: number(values["max-in-flight"], "max-in-flight") ?? 0,
+  };
+  if (durationS <= 0) fail("--duration must be above 0");
+  const profileError = validateLoadProfile(profile);
+  if (profileError) fail(profileError);
+
+  const thresholds: LoadThresholds = {
+    maxP50PreconfMs: number(values["max-p50-preconf"], "max-p50-preconf"),
+    maxP99PreconfMs: number(values["max-p99-preconf"], "max-p99-preconf"),
+    maxP50InclusionMs: number(values["max-p50-inclusion"], "max-p50-inclusion"),
+    maxP99InclusionMs: number(values["max-p99-inclusion"], "max-p99-inclusion"),
+    maxFailureRate: number(values["max-failure-rate"], "max-failure-rate"),
+  };
+  const routing = values.routing as RoutingMode;
+
+  const runner = new LoadRunner({
+    network: network.name,
+    rpcUrl,
+    chainId: network.chainId,
+    registryUrl: values.registry ?? network.registryRpcUrl,
+    fragStreamUrl: values.frags ?? network.fragWsUrl,
+    privateUrl: network.privateRpcUrl,
+    privateKeys,
+    routing,
+    profile,
+    settleMs: number(values.settle, "settle")! * 1000,
+    // stdout is kept for the JSON result
+    onProgress: (stats) =>
+      console.error(
+        `${stats.confirmedTxs}/${stats.totalTxs} recent txs confirmed, ` +
+          `p50 preconf ${stats.p50PreconfLatency}ms, p50 inclusion ${stats.p50InclusionLatency}ms`
+      ),
+  });
+  const report = await runner.run();
+
+  const breaches = checkThresholds(report, thresholds);
+  const result: LoadTestResult = {
+    passed: breaches.length === 0,
+    breaches,
+    thresholds,
+    profile,
+    routing,
+    failureRate: failureRate(report),
+    report,
+  };
+
+  const json = JSON.stringify(result, null, 2);
+  if (values.out) {
+    await writeFile(values.out, json);
+  } else {
+    console.log(json);
+  }
+
+  console.error(describeRun(report));
+  for (const breach of breaches) console.error(`FAIL ${breach}`);
+  if (breaches.length > 0) process.exit(EXIT_BREACHED);
+  // Sockets and timers of the run shouldn't keep the process around
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error("Load test failed:", error);
+  process.exit(EXIT_ERROR);
+});
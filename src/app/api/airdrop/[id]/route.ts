@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { airdropQueueFor, serializeJob } from '@/lib/airdropQueue';
+import { networkFromRequest } from '@/lib/networks';
+
+export async function GET(
+    request: Request,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const { id } = await params;
+    const network = networkFromRequest(request);
+    const job = network && airdropQueueFor(network)?.getJob(id);
+
+    if (!job) {
+        return NextResponse.json(
+            { error: 'Airdrop job not found' },
+            { status: 404 }
+        );
+    }
+    return NextResponse.json(serializeJob(job));
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from 'next/server';
+import { faucetGuardFor } from '@/lib/faucetGuard';
+import { networkFromRequest } from '@/lib/networks';
+
+// Issues a one-time message the requester signs with the wallet to be funded
+export async function POST(request: Request) {
+    const network = networkFromRequest(request);
+    if (!network) {
+        return NextResponse.json({ error: 'Unknown network' }, { status: 404 });
+    }
+    const faucetGuard = faucetGuardFor(network);
+
+    try {
+        const { address } = await request.json();
+
+        const normalized = faucetGuard.normalizeAddress(address);
+        if (!normalized) {
+            return NextResponse.json(
+                { error: 'Invalid address' },
+                { status: 400 }
+            );
+        }
+
+        const { nonce, message, expiresAt } = faucetGuard.issueChallenge(normalized);
+        return NextResponse.json({ nonce, message, expiresAt });
+    } catch (error) {
+        console.error('Challenge error:', error);
+        return NextResponse.json(
+            { error: 'Invalid request' },
+            { status: 400 }
+        );
+    }
+}
@@ -1,46 +1,126 @@
 import { NextResponse } from 'next/server';
-import { JsonRpcProvider, Wallet, parseEther } from 'ethers';
+import { parseEther } from 'ethers';
+import { faucetGuardFor } from '@/lib/faucetGuard';
+import { clientIp } from '@/lib/rateLimit';
+import { airdropQueueFor, serializeJob } from '@/lib/airdropQueue';
+import { NetworkProfile, networkFromRequest } from '@/lib/networks';
+import { airdropRequests } from '@/lib/metrics';
 
-if (!process.env.FUNDING_PRIVATE_KEY) {
-    throw new Error('FUNDING_PRIVATE_KEY environment variable is not set');
+const MAX_RECIPIENTS = 50;
+
+function faucetUnavailable(network: NetworkProfile | undefined) {
+    return network
+        ? NextResponse.json(
+            { error: `No faucet configured for ${network.label}` },
+            { status: 503 }
+        )
+        : NextResponse.json({ error: 'Unknown network' }, { status: 404 });
+}
+
+// Tells clients where to send leftover funds back to
+export async function GET(request: Request) {
+    const network = networkFromRequest(request);
+    const queue = network && airdropQueueFor(network);
+    if (!network || !queue) return faucetUnavailable(network);
+
+    return NextResponse.json({
+        fundingAddress: queue.fundingAddress,
+        amount: parseEther(network.faucet.amountEth).toString(),
+    });
 }
 
+type RecipientRequest = {
+    address?: string;
+    nonce?: string;
+    signature?: string;
+};
+
+// Batches come from clients, so any entry may be null or carry a non-string
+function hasAddress(recipient: unknown): recipient is RecipientRequest & { address: string } {
+    const address = (recipient as RecipientRequest | null)?.address;
+    return typeof address === 'string' && address !== '';
+}
+
+// Accepts a single { address, nonce, signature } or a batch of them as
+// { recipients: [...] }, each signed against its own challenge
 export async function POST(request: Request) {
+    const network = networkFromRequest(request);
+    const response = await handleAirdrop(request, network);
+    // Unknown network names stay out of the labels, anyone can make them up
+    if (network) {
+        airdropRequests.inc({ network: network.name, status: String(response.status) });
+    }
+    return response;
+}
+
+async function handleAirdrop(request: Request, network: NetworkProfile | undefined) {
+    const ip = clientIp(request);
+    const queue = network && airdropQueueFor(network);
+    if (!network || !queue) return faucetUnavailable(network);
+    const faucetGuard = faucetGuardFor(network);
+    const amount = parseEther(network.faucet.amountEth);
+
     try {
-        const { address } = await request.json();
-        console.log('Airdrop request received: ', address);
+        const body = await request.json();
+        if (typeof body !== 'object' || body === null) {
+            return NextResponse.json(
+                { error: 'Request body must be a JSON object' },
+                { status: 400 }
+            );
+        }
+        const requested: unknown[] = Array.isArray(body.recipients)
+            ? body.recipients
+            : [body];
 
-        if (!address) {
+        if (requested.length === 0 || !requested.every(hasAddress)) {
             return NextResponse.json(
                 { error: 'Address is required' },
                 { status: 400 }
             );
         }
+        console.log('Airdrop request received: ', requested.map(r => r.address), 'from', ip);
+        if (requested.length > MAX_RECIPIENTS) {
+            return NextResponse.json(
+                { error: `At most ${MAX_RECIPIENTS} recipients per request` },
+                { status: 400 }
+            );
+        }
 
-        console.log('Connecting to RPC URL:', process.env.NEXT_PRIVATE_RPC_URL);
+        const addresses: string[] = [];
+        for (const recipient of requested) {
+            const address = faucetGuard.normalizeAddress(recipient.address);
+            if (!address) {
+                return NextResponse.json(
+                    { error: `Invalid address: ${recipient.address}` },
+                    { status: 400 }
+                );
+            }
 
-        const provider = new JsonRpcProvider(process.env.NEXT_PRIVATE_RPC_URL);
+            const rejection = faucetGuard.verifyChallenge(address, recipient.nonce, recipient.signature);
+            if (rejection) {
+                console.warn('Airdrop rejected:', address, rejection.error);
+                return NextResponse.json(
+                    { error: rejection.error },
+                    { status: rejection.status }
+                );
+            }
+            addresses.push(address);
+        }
 
-        // Test connection before proceeding
-        try {
-            const blockNumber = await provider.getBlockNumber();
-            console.log('Connected to RPC, current block:', blockNumber);
-        } catch (error) {
-            console.error('Failed to connect to RPC:', error);
+        const rejection = faucetGuard.reserve(ip, addresses, amount);
+        if (rejection) {
+            console.warn('Airdrop rejected:', addresses, rejection.error);
             return NextResponse.json(
-                { error: 'Failed to connect to blockchain network' },
-                { status: 500 }
+                { error: rejection.error },
+                { status: rejection.status }
             );
         }
 
-        const fundingWallet = new Wallet(process.env.FUNDING_PRIVATE_KEY!, provider);
-        const tx = await fundingWallet.sendTransaction({
-            to: address,
-            value: parseEther('0.01'),
-        });
-
-        console.log('Airdrop transaction sent: ', tx.hash);
-        return NextResponse.json({ txHash: tx.hash });
+        const job = queue.enqueue(addresses, amount, unsent =>
+            faucetGuard.release(ip, addresses, unsent, amount)
+        );
+        console.log('Airdrop job queued: ', job.id);
+        return NextResponse.json(serializeJob(job), { status: 202 });
     } catch (error) {
         console.error('Airdrop error:', error);
         return NextResponse.json(
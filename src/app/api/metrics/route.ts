@@ -0,0 +1,113 @@
+import { formatEther } from 'ethers';
+import { NetworkProfile, getNetworks } from '@/lib/networks';
+import { registryStoreFor } from '@/lib/registryStore';
+import { airdropQueueFor } from '@/lib/airdropQueue';
+import {
+  Metric,
+  MetricSample,
+  airdropJobs,
+  airdropRequests,
+  formatMetrics,
+  registryFetches,
+} from '@/lib/metrics';
+
+export const dynamic = 'force-dynamic';
+
+function gauge(name: string, help: string, samples: MetricSample[]): Metric {
+  return { name, help, type: "gauge", samples };
+}
+
+function registryMetrics(networks: NetworkProfile[]): Metric[] {
+  const now = Date.now();
+  const age: MetricSample[] = [];
+  const stale: MetricSample[] = [];
+  const lookahead: MetricSample[] = [];
+  const ping: MetricSample[] = [];
+  const up: MetricSample[] = [];
+  const errorRate: MetricSample[] = [];
+  const syncLag: MetricSample[] = [];
+  const probes: MetricSample[] = [];
+
+  for (const network of networks) {
+    if (!network.registryRpcUrl) continue;
+    const store = registryStoreFor(network);
+    const data = store.getData();
+    const labels = { network: network.name };
+
+    // Nothing to age before the first fetch or restore
+    if (data.lastUpdated > 0) {
+      age.push({ labels, value: (now - data.lastUpdated) / 1000 });
+    }
+    stale.push({ labels, value: data.stale ? 1 : 0 });
+    lookahead.push({ labels, value: data.futureGateways.length });
+
+    for (const gw of data.gateways) {
+      const gwLabels = { ...labels, gateway: gw.url };
+      // A gateway that has not been probed yet is neither up nor down
+      if (gw.uptime !== undefined) {
+        up.push({ labels: gwLabels, value: gw.lastError ? 0 : 1 });
+      }
+      if (gw.ping !== undefined) ping.push({ labels: gwLabels, value: gw.ping });
+      if (gw.errorRate !== undefined) errorRate.push({ labels: gwLabels, value: gw.errorRate });
+      if (gw.syncLag !== undefined) syncLag.push({ labels: gwLabels, value: gw.syncLag });
+    }
+    for (const { url, probes: total, successes } of store.getProbeCounts()) {
+      probes.push(
+        { labels: { ...labels, gateway: url, result: "success" }, value: successes },
+        { labels: { ...labels, gateway: url, result: "failure" }, value: total - successes }
+      );
+    }
+  }
+
+  return [
+    registryFetches.collect(),
+    gauge("registry_data_age_seconds", "Seconds since the registry data was last fetched", age),
+    gauge("registry_stale", "1 while the registry data is stale", stale),
+    gauge("registry_lookahead_blocks", "Blocks of leader schedule known ahead of the head", lookahead),
+    gauge("gateway_up", "1 if the latest probe of the gateway succeeded", up),
+    gauge("gateway_ping_ms", "Average ping of the gateway's recent successful probes", ping),
+    gauge("gateway_error_rate_percent", "Share of the gateway's probes in the last minute that failed", errorRate),
+    gauge("gateway_sync_lag_blocks", "Blocks the gateway trailed the sequencer head at its last probe", syncLag),
+    {
+      name: "gateway_probes_total",
+      help: "Gateway probes by result since the gateway was registered",
+      type: "counter",
+      samples: probes,
+    },
+  ];
+}
+
+async function faucetMetrics(networks: NetworkProfile[]): Promise<Metric[]> {
+  const balances = await Promise.all(networks.map(async (network): Promise<MetricSample | null> => {
+    const queue = airdropQueueFor(network);
+    if (!queue) return null;
+    try {
+      const balance = await queue.getBalance();
+      return { labels: { network: network.name }, value: Number(formatEther(balance)) };
+    } catch (error) {
+      // A missing sample is what alerts on absent() are for
+      console.error(`Failed to read the funding balance for ${network.name}:`, error);
+      return null;
+    }
+  }));
+
+  return [
+    airdropRequests.collect(),
+    airdropJobs.collect(),
+    gauge(
+      "faucet_balance_eth",
+      "Balance of the funding wallet",
+      balances.filter((sample): sample is MetricSample => sample !== null)
+    ),
+  ];
+}
+
+// Registry and faucet health of every network, for Prometheus to scrape
+export async function GET() {
+  const networks = getNetworks();
+  const metrics = [...registryMetrics(networks), ...await faucetMetrics(networks)];
+
+  return new Response(formatMetrics(metrics), {
+    headers: { "Content-Type": "text/plain; version=0.0.4; charset=utf-8" },
+  });
+}
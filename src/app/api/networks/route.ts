@@ -0,0 +1,7 @@
+import { getNetworks, toPublicNetwork } from '@/lib/networks';
+import { NextResponse } from 'next/server';
+
+// Profiles the UI can switch between, the first one is the default
+export async function GET() {
+  return NextResponse.json({ networks: getNetworks().map(toPublicNetwork) });
+}
@@ -0,0 +1,61 @@
+import { registryHistoryFor } from '@/lib/registryHistory';
+import { networkFromRequest } from '@/lib/networks';
+import { NextRequest, NextResponse } from 'next/server';
+
+const DEFAULT_LIMIT = 1000;
+const MAX_LIMIT = 10000;
+const KINDS = ["gateways", "schedule", "pings"] as const;
+
+function parseOptionalInt(value: string | null): number | undefined | null {
+  if (value === null || value === "") return undefined;
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+// Query params: network, from/to (unix ms), fromBlock/toBlock, kind, limit
+export async function GET(request: NextRequest) {
+  const network = networkFromRequest(request);
+  if (!network) {
+    return NextResponse.json({ error: 'Unknown network' }, { status: 404 });
+  }
+  const params = request.nextUrl.searchParams;
+
+  const fromMs = parseOptionalInt(params.get("from"));
+  const toMs = parseOptionalInt(params.get("to"));
+  const fromBlock = parseOptionalInt(params.get("fromBlock"));
+  const toBlock = parseOptionalInt(params.get("toBlock"));
+  const limit = parseOptionalInt(params.get("limit"));
+  if ([fromMs, toMs, fromBlock, toBlock, limit].includes(null)) {
+    return NextResponse.json(
+      { error: 'from, to, fromBlock, toBlock and limit must be non-negative integers' },
+      { status: 400 }
+    );
+  }
+
+  const kind = params.get("kind");
+  if (kind !== null && !KINDS.includes(kind as typeof KINDS[number])) {
+    return NextResponse.json(
+      { error: `kind must be one of: ${KINDS.join(", ")}` },
+      { status: 400 }
+    );
+  }
+
+  console.log("Serving registry history");
+  try {
+    const records = await registryHistoryFor(network).query({
+      fromMs: fromMs ?? undefined,
+      toMs: toMs ?? undefined,
+      fromBlock: fromBlock ?? undefined,
+      toBlock: toBlock ?? undefined,
+      kind: (kind as typeof KINDS[number] | null) ?? undefined,
+      limit: Math.min(limit ?? DEFAULT_LIMIT, MAX_LIMIT),
+    });
+    return NextResponse.json({ records });
+  } catch (error) {
+    console.error('Failed to read registry history:', error);
+    return NextResponse.json(
+      { error: 'Failed to read registry history' },
+      { status: 500 }
+    );
+  }
+}
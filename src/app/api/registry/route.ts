@@ -1,8 +1,14 @@
-import { registryStore } from '@/lib/registryStore';
+import { registryStoreFor } from '@/lib/registryStore';
+import { networkFromRequest } from '@/lib/networks';
 import { NextResponse } from 'next/server';
 
-export async function GET() {
-  console.log("Serving registry data");
-  const data = registryStore.getData();
+export async function GET(request: Request) {
+  const network = networkFromRequest(request);
+  if (!network) {
+    return NextResponse.json({ error: 'Unknown network' }, { status: 404 });
+  }
+
+  console.log(`Serving registry data for ${network.name}`);
+  const data = registryStoreFor(network).getData();
   return NextResponse.json(data);
 } 
\ No newline at end of file
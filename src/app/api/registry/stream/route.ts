@@ -0,0 +1,69 @@
+import { registryStoreFor } from '@/lib/registryStore';
+import { networkFromRequest } from '@/lib/networks';
+import { RegistryData } from '@/types';
+import { NextResponse } from 'next/server';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing an idle stream between updates
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+export async function GET(request: Request) {
+  const network = networkFromRequest(request);
+  if (!network) {
+    return NextResponse.json({ error: 'Unknown network' }, { status: 404 });
+  }
+  const registryStore = registryStoreFor(network);
+
+  console.log(`Opening registry stream for ${network.name}`);
+  const encoder = new TextEncoder();
+
+  // Runs at most once, whichever of the client cancelling, the request
+  // aborting or a failed write comes first
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch (error) {
+          // The stream went away without telling us
+          console.warn("Registry stream write failed:", error);
+          cleanup();
+        }
+      };
+      const send = (data: RegistryData) => write(`data: ${JSON.stringify(data)}\n\n`);
+
+      const unsubscribe = registryStore.subscribe(send);
+      const heartbeat = setInterval(() => write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+      let closed = false;
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        console.log("Closing registry stream");
+        unsubscribe();
+        clearInterval(heartbeat);
+        try {
+          controller.close();
+        } catch {
+          // Already closed or errored by the runtime
+        }
+      };
+      request.signal.addEventListener("abort", () => cleanup());
+
+      send(registryStore.getData());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
@@ -0,0 +1,102 @@
+import { NextResponse } from 'next/server';
+import { networkFromRequest } from '@/lib/networks';
+import { RateLimiter, clientIp } from '@/lib/rateLimit';
+
+const RELAY_TIMEOUT_MS = 5000;
+// Load tests send from the browser at high rates, so this only stops abuse
+const RELAY_TXS_PER_MINUTE = relayTxsPerMinute();
+
+const relayLimiter = new RateLimiter(RELAY_TXS_PER_MINUTE, 60 * 1000);
+
+function relayTxsPerMinute() {
+  const limit = Number(process.env.RELAY_TXS_PER_MINUTE);
+  return Number.isInteger(limit) && limit > 0 ? limit : 6000;
+}
+
+// Only the dashboard itself may relay. Browsers send these headers on
+// every cross-origin fetch, so other sites can't use a visitor's browser
+function isSameOrigin(request: Request) {
+  const site = request.headers.get("sec-fetch-site");
+  if (site && site !== "same-origin") return false;
+
+  const origin = request.headers.get("origin");
+  if (!origin) return true;
+  // The proxy in front of the app sees the host the browser used
+  const forwarded = request.headers.get("x-forwarded-host")?.split(",")[0].trim();
+  const host = forwarded || request.headers.get("host") || new URL(request.url).host;
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
+
+// Forwards raw txs to the private RPC so the browser can race it against
+// public endpoints without learning its URL. Nothing but
+// eth_sendRawTransaction is relayed.
+export async function POST(request: Request) {
+  if (!isSameOrigin(request)) {
+    return NextResponse.json({ error: 'Cross-origin relaying is not allowed' }, { status: 403 });
+  }
+  if (!relayLimiter.allow(clientIp(request))) {
+    return NextResponse.json(
+      { error: 'Too many relayed transactions, try again later' },
+      { status: 429 }
+    );
+  }
+
+  const network = networkFromRequest(request);
+  if (!network) {
+    return NextResponse.json({ error: 'Unknown network' }, { status: 404 });
+  }
+  const privateRpcUrl = network.privateRpcUrl;
+  if (!privateRpcUrl) {
+    return NextResponse.json(
+      { error: 'Private RPC is not configured' },
+      { status: 503 }
+    );
+  }
+
+  let body: { jsonrpc?: string; method?: string; params?: unknown; id?: unknown };
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  if (
+    body?.method !== "eth_sendRawTransaction" ||
+    !Array.isArray(body.params) ||
+    body.params.length !== 1 ||
+    typeof body.params[0] !== "string"
+  ) {
+    return NextResponse.json(
+      { error: 'Only single eth_sendRawTransaction calls are relayed' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const response = await fetch(privateRpcUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        method: body.method,
+        params: body.params,
+        id: body.id ?? 1,
+      }),
+      signal: AbortSignal.timeout(RELAY_TIMEOUT_MS),
+    });
+    return new Response(await response.text(), {
+      status: response.status,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Relay to private RPC failed:', error);
+    return NextResponse.json(
+      { error: 'Private RPC unreachable' },
+      { status: 502 }
+    );
+  }
+}
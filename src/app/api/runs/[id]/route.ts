@@ -0,0 +1,26 @@
+import { runStore } from '@/lib/runStore';
+import { runReportToCsv } from '@/lib/runReport';
+import { NextRequest, NextResponse } from 'next/server';
+
+// Serves a stored run as JSON, or as CSV with ?format=csv
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const report = await runStore.get(id);
+
+  if (!report) {
+    return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+  }
+
+  if (request.nextUrl.searchParams.get("format") === "csv") {
+    return new Response(runReportToCsv(report), {
+      headers: {
+        'Content-Type': 'text/csv',
+        'Content-Disposition': `attachment; filename="break-my-frags-run-${id}.csv"`,
+      },
+    });
+  }
+  return NextResponse.json(report);
+}
@@ -0,0 +1,70 @@
+import { runStore } from '@/lib/runStore';
+import { RunReport, validateRunReport } from '@/lib/runReport';
+import { RateLimiter, clientIp } from '@/lib/rateLimit';
+import { NextResponse } from 'next/server';
+
+// Long runs carry every tx, but anything past this is not a report
+const MAX_REPORT_BYTES = 50 * 1024 * 1024;
+const UPLOADS_PER_HOUR = 20;
+
+const uploadLimiter = new RateLimiter(UPLOADS_PER_HOUR, 60 * 60 * 1000);
+
+// Reads the body up to `maxBytes`, null if it is longer. Content-Length is
+// only a hint, a chunked body has none
+async function readBody(request: Request, maxBytes: number): Promise<Uint8Array | null> {
+  if (Number(request.headers.get("content-length")) > maxBytes) return null;
+  if (!request.body) return new Uint8Array();
+
+  const reader = request.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return null;
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+export async function POST(request: Request) {
+  if (!uploadLimiter.allow(clientIp(request))) {
+    return NextResponse.json(
+      { error: 'Too many uploads, try again later' },
+      { status: 429 }
+    );
+  }
+
+  const bytes = await readBody(request, MAX_REPORT_BYTES);
+  if (!bytes) {
+    return NextResponse.json({ error: 'Report is too large' }, { status: 413 });
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(new TextDecoder().decode(bytes));
+  } catch {
+    return NextResponse.json({ error: 'Invalid JSON body' }, { status: 400 });
+  }
+
+  const invalid = validateRunReport(body);
+  if (invalid) {
+    return NextResponse.json({ error: invalid }, { status: 400 });
+  }
+
+  try {
+    const id = await runStore.save(body as RunReport);
+    console.log("Stored run report:", id);
+    return NextResponse.json({ id, url: `/runs/${id}` }, { status: 201 });
+  } catch (error) {
+    console.error('Failed to store run report:', error);
+    return NextResponse.json(
+      { error: 'Failed to store run report' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,151 +1,324 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import { JsonRpcProvider, Wallet, parseUnits, formatEther } from "ethers";
+import {
+  JsonRpcProvider,
+  parseUnits,
+  formatEther,
+  isAddress,
+} from "ethers";
 import { HDNodeWallet } from "ethers";
-import { TransactionRequest } from "ethers";
-import { FutureGateway, Gateway } from "@/types";
-
-type TxInfo = {
-  hash: string;
-  sendTimeMs: number;
-  blockNumber?: number;
-  latencyMs?: number;
-};
-
-function calculateStats(
-  confirmedTxs: Map<number, TxInfo>,
-  stillPending: number
-) {
-  const filteredTxs = Array.from(confirmedTxs.entries())
-    .sort(([nonceA], [nonceB]) => Number(nonceB) - Number(nonceA))
-    .slice(0, 50) // Take only last 50 transactions
-    .map(([, tx]) => tx);
-
-  const latencies = filteredTxs
-    .map((tx) => tx.latencyMs || 0)
-    .filter((latency) => latency > 0); // Only include confirmed transactions
-
-  const p50 =
-    latencies.length > 0
-      ? latencies.sort((a, b) => a - b)[Math.floor(latencies.length * 0.5)]
-      : 0;
-
-  const avg =
-    latencies.length > 0
-      ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length)
-      : 0;
-
-  return {
-    totalTxs: confirmedTxs.size + stillPending,
-    confirmedTxs: confirmedTxs.size,
-    p50Latency: p50,
-    avgLatency: avg,
-  };
+import { FutureGateway, Gateway, PublicNetwork, RegistryData } from "@/types";
+import { FragStream } from "@/lib/fragStream";
+import { createWalletPool, fanOutFunds, sweepFunds } from "@/lib/walletPool";
+import {
+  DEFAULT_TEMPLATE,
+  FeeSettings,
+  PreparedTemplate,
+  TxTemplate,
+  buildCalldata,
+  describeTemplate,
+  fetchFees,
+  prepareTemplate,
+} from "@/lib/txTemplate";
+import { gatewayLabel, shortAddress } from "@/lib/format";
+import {
+  DEFAULT_LOAD_PROFILE,
+  LOAD_PROFILE_LABELS,
+  LoadProfile,
+  LoadProfileKind,
+  LoadScheduler,
+  LoadStats,
+  describeLoadProfile,
+  validateLoadProfile,
+} from "@/lib/loadSchedule";
+import { PRIVATE_RELAY_PATH } from "@/lib/broadcastRace";
+import { ROUTING_LABELS, RoutingMode } from "@/lib/txSender";
+import {
+  EMPTY_TOTALS,
+  RunRecorder,
+  RunReport,
+  RunTotals,
+  describeRun,
+  downloadRunReport,
+} from "@/lib/runReport";
+import {
+  LatencyHistogramChart,
+  LatencySummaryGrid,
+  LatencyTimeChart,
+  PRECONF_COLOR,
+} from "@/components/LatencyCharts";
+import {
+  clearWalletPool,
+  exportWalletPool,
+  hasStoredWallets,
+  isStoredPoolEncrypted,
+  loadWalletPool,
+  saveWalletPool,
+} from "@/lib/walletStorage";
+import { formatHandoffPosition } from "@/lib/handoff";
+import { MAX_RECENT_TXS, TrackedTxs, TxTracker } from "@/lib/txTracker";
+import {
+  calculateEndpointStats,
+  calculateGatewayStats,
+  calculateHandoffStats,
+  calculateRoutingStats,
+  calculateWalletStats,
+} from "@/lib/txStats";
+
+type SendMode = "round-robin" | "concurrent";
+
+type RegistryStatus = Pick<RegistryData, "stale" | "lastError" | "lastUpdated">;
+
+// Numeric load settings, with the profiles they apply to (all if omitted)
+const LOAD_FIELDS: {
+  key: Exclude<keyof LoadProfile, "kind">;
+  label: string;
+  kinds?: LoadProfileKind[];
+}[] = [
+  { key: "targetTps", label: "Target TPS" },
+  { key: "durationS", label: "Duration (s, 0 = until stopped)" },
+  { key: "rampUpS", label: "Ramp up (s)", kinds: ["ramp"] },
+  { key: "rampDownS", label: "Ramp down (s)", kinds: ["ramp"] },
+  { key: "steps", label: "Steps", kinds: ["step"] },
+  { key: "stepS", label: "Step length (s)", kinds: ["step"] },
+  { key: "spikeTps", label: "Spike TPS", kinds: ["spike"] },
+  { key: "spikeAtS", label: "Spike at (s)", kinds: ["spike"] },
+  { key: "spikeS", label: "Spike length (s)", kinds: ["spike"] },
+  { key: "maxInFlight", label: "Max in flight (0 = no cap)" },
+];
+const LOAD_STATS_INTERVAL_MS = 1000;
+
+const MAX_POOL_SIZE = 50;
+
+// Gas price for funding fan-out and sweep transfers
+const gasPrice = parseUnits("0.1", "gwei");
+const FEE_REFRESH_INTERVAL_MS = 10000;
+const NONCE_CHECK_INTERVAL_MS = 5000;
+const REGISTRY_POLL_INTERVAL_MS = 5000;
+const REGISTRY_STREAM_RETRY_MS = 30000;
+const AIRDROP_POLL_INTERVAL_MS = 1000;
+const NETWORK_STORAGE_KEY = "network";
+
+// Query string that points the API routes at the selected network profile
+function networkQuery(network: PublicNetwork | null) {
+  return network ? `?network=${encodeURIComponent(network.name)}` : "";
+}
+
+// A failed airdrop job, with whatever the faucet sent before it failed
+class AirdropFailedError extends Error {
+  constructor(message: string, public txHashes: string[]) {
+    super(message);
+    this.name = "AirdropFailedError";
+  }
+}
+
+// Polls the faucet's queue until the airdrop job is confirmed. A failed
+// poll is retried, only the job itself failing or going missing ends it
+async function waitForAirdrop(id: string, query: string) {
+  for (;;) {
+    let response: Response | null = null;
+    let job;
+    try {
+      response = await fetch(`/api/airdrop/${id}${query}`);
+      job = await response.json();
+    } catch (error) {
+      console.warn("Airdrop status poll failed, retrying:", error);
+    }
+
+    if (response?.status === 404) {
+      throw new Error(job?.error ?? "Airdrop job not found");
+    }
+    if (response?.ok && job.status === "failed") {
+      throw new AirdropFailedError(job.error ?? "Airdrop failed", job.txHashes ?? []);
+    }
+    if (response?.ok && job.status === "confirmed") return job;
+    await new Promise((resolve) => setTimeout(resolve, AIRDROP_POLL_INTERVAL_MS));
+  }
 }
 
 export default function Home() {
-  const [provider, setProvider] = useState(
-    () => new JsonRpcProvider(process.env.NEXT_PUBLIC_DEFAULT_RPC_URL)
-  );
+  // Created once the network profile is known, so nothing talks to an
+  // RPC the profile didn't pick
+  const [provider, setProvider] = useState<JsonRpcProvider | null>(null);
   const [chainId, setChainId] = useState(BigInt(0));
+  const [networks, setNetworks] = useState<PublicNetwork[]>([]);
+  const [network, setNetwork] = useState<PublicNetwork | null>(null);
+  // Set when the RPC serves a different chain than the profile expects
+  const [chainError, setChainError] = useState<string | null>(null);
   const [currentBlock, setCurrentBlock] = useState<number>(0);
   const [rpcUrl, setRpcUrl] = useState(process.env.NEXT_PUBLIC_DEFAULT_RPC_URL);
-  const [wallet, setWallet] = useState<HDNodeWallet | null>(null);
-  const [nonce, setNonce] = useState(0);
-  const [confirmedTxs, setConfirmedTxs] = useState<Map<number, TxInfo>>(
-    new Map()
-  );
-  const [pendingTxs, setPendingTxs] = useState<Map<number, TxInfo>>(new Map());
-  const [balance, setBalance] = useState<bigint>(BigInt(0));
+  const [poolSize, setPoolSize] = useState(1);
+  const [wallets, setWallets] = useState<HDNodeWallet[]>([]);
+  const [walletPassword, setWalletPassword] = useState("");
+  const [walletsLocked, setWalletsLocked] = useState(false);
+  const [walletError, setWalletError] = useState<string | null>(null);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const restoredWallets = useRef(false);
+  const nextWalletIndex = useRef(0);
+  // Sends and follows txs, kept across provider switches. Its recorder
+  // holds the txs sent since the first send after the last run ended
+  const [tracker] = useState(() => new TxTracker());
+  const [
+    { pending: pendingTxs, confirmed: confirmedTxs, failed: failedTxs },
+    setTrackedTxs,
+  ] = useState<TrackedTxs>(() => tracker.tracked);
+  const [runStartedMs, setRunStartedMs] = useState<number | null>(null);
+  const [runTotals, setRunTotals] = useState<RunTotals>(EMPTY_TOTALS);
+  const [finishedRun, setFinishedRun] = useState<RunReport | null>(null);
+  const [runShareUrl, setRunShareUrl] = useState<string | null>(null);
+  const [runError, setRunError] = useState<string | null>(null);
+  const [isSharingRun, setIsSharingRun] = useState(false);
+  const [balances, setBalances] = useState<Map<string, bigint>>(new Map());
   const [pingLatency, setPingLatency] = useState<number>(0);
   const [autoSend, setAutoSend] = useState(false);
-  const isPolling = useRef(false);
+  const [loadProfile, setLoadProfile] =
+    useState<LoadProfile>(DEFAULT_LOAD_PROFILE);
+  const [loadStats, setLoadStats] = useState<LoadStats | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [sendMode, setSendMode] = useState<SendMode>("round-robin");
+  const [routing, setRouting] = useState<RoutingMode>("rpc");
+  const [templateDraft, setTemplateDraft] = useState<TxTemplate>(DEFAULT_TEMPLATE);
+  const [appliedTemplate, setAppliedTemplate] =
+    useState<TxTemplate>(DEFAULT_TEMPLATE);
+  const [preparedTemplate, setPreparedTemplate] =
+    useState<PreparedTemplate | null>(null);
+  const [fees, setFees] = useState<FeeSettings | null>(null);
+  const [templateError, setTemplateError] = useState<string | null>(null);
   const [gateways, setGateways] = useState<Gateway[]>([]);
   const [futureGateways, setFutureGateways] = useState<FutureGateway[]>([]);
+  const [registryStatus, setRegistryStatus] = useState<RegistryStatus>({
+    stale: false,
+    lastError: null,
+    lastUpdated: 0,
+  });
 
-  const ethValue = parseUnits("1", "gwei");
-  const gasPrice = parseUnits("0.1", "gwei");
-
-  // Initialize provider and chain ID on mount
+  // Nonces and receipts are per provider, the tracked txs stay
   useEffect(() => {
-    const initProvider = async () => {
-      const network = await provider.getNetwork();
-      setChainId(network.chainId);
-    };
-    initProvider();
-  }, [provider]);
+    if (provider) tracker.setProvider(provider);
+  }, [tracker, provider]);
 
-  // Poll for specific transaction receipts
+  // Wallets fund and sweep through their own provider, so move them along
   useEffect(() => {
-    if (pendingTxs.size === 0) return;
+    if (!provider) return;
+    setWallets((pool) =>
+      pool.some((w) => w.provider !== provider)
+        ? pool.map((w) => w.connect(provider))
+        : pool
+    );
+  }, [provider]);
 
-    const interval = setInterval(async () => {
-      if (isPolling.current) return;
-      isPolling.current = true;
+  // Mirror the tracked txs and the run totals into state
+  useEffect(
+    () =>
+      tracker.subscribe((txs, runChanged) => {
+        setTrackedTxs(txs);
+        if (runChanged && tracker.recorder) {
+          setRunTotals(tracker.recorder.totals());
+        }
+      }),
+    [tracker]
+  );
 
+  // Load the network profiles and pick up the one used last time
+  useEffect(() => {
+    const loadNetworks = async () => {
       try {
-        const stillPending: Map<number, TxInfo> = new Map();
-        const updated: Map<number, TxInfo> = new Map();
-
-        for (const [nonce, info] of pendingTxs.entries()) {
-          const rcpt = await provider.getTransactionReceipt(info.hash);
-          if (rcpt) {
-            updated.set(nonce, {
-              ...info,
-              blockNumber: rcpt.blockNumber,
-              latencyMs: Date.now() - info.sendTimeMs,
-            });
-          } else {
-            stillPending.set(nonce, info);
-          }
+        const response = await fetch("/api/networks");
+        const { networks: profiles } = await response.json();
+        if (!response.ok || profiles.length === 0) {
+          throw new Error("No network profiles available");
         }
+        const stored = localStorage.getItem(NETWORK_STORAGE_KEY);
+        const selected: PublicNetwork =
+          profiles.find((n: PublicNetwork) => n.name === stored) ?? profiles[0];
+        setNetworks(profiles);
+        setNetwork(selected);
+        setRpcUrl(selected.rpcUrl);
+        setProvider((prev) =>
+          prev?._getConnection().url === selected.rpcUrl
+            ? prev
+            : new JsonRpcProvider(selected.rpcUrl)
+        );
+      } catch (error) {
+        console.error("Failed to load network profiles:", error);
+      }
+    };
+    loadNetworks();
+  }, []);
 
-        setConfirmedTxs((prev) => {
-          // Combine previous and new transactions
-          const allTxs = new Map([...prev, ...updated]);
+  // Initialize the chain ID and check it against the selected profile
+  const expectedChainId = network?.chainId;
+  useEffect(() => {
+    if (!provider) return;
+    const initProvider = async () => {
+      const rpcNetwork = await provider.getNetwork();
+      setChainId(rpcNetwork.chainId);
+      if (
+        expectedChainId !== undefined &&
+        rpcNetwork.chainId !== BigInt(expectedChainId)
+      ) {
+        setChainError(
+          `RPC serves chain ${rpcNetwork.chainId}, expected ${expectedChainId}`
+        );
+        setAutoSend(false);
+      } else {
+        setChainError(null);
+      }
+    };
+    initProvider().catch((error) =>
+      console.error("Failed to fetch chain ID:", error)
+    );
+  }, [provider, expectedChainId]);
 
-          // Sort by nonce (descending) and take only the first 100
-          const sortedEntries = Array.from(allTxs.entries())
-            .sort(([nonceA], [nonceB]) => nonceB - nonceA)
-            .slice(0, 100);
+  // Restore the wallet pool from the previous session, if any
+  useEffect(() => {
+    if (!provider || restoredWallets.current) return;
+    restoredWallets.current = true;
+    if (!hasStoredWallets()) return;
 
-          // Create new Map with only the latest 100 transactions
-          return new Map(sortedEntries);
-        });
+    if (isStoredPoolEncrypted()) {
+      setWalletsLocked(true);
+      return;
+    }
+    loadWalletPool(provider)
+      .then((pool) => pool && setWallets(pool))
+      .catch((error) => console.error("Failed to restore wallets:", error));
+  }, [provider]);
 
-        setPendingTxs((prev) => {
-          const next = new Map(prev);
-          for (const nonce of updated.keys()) {
-            next.delete(nonce);
-          }
-          return next;
-        });
-      } finally {
-        isPolling.current = false;
-      }
-    }, 20);
+  // Subscribe to the frag stream and record when our txs get preconfirmed
+  const fragStreamUrl = network?.fragWsUrl;
+  useEffect(() => {
+    if (!fragStreamUrl) return;
 
-    return () => clearInterval(interval);
-  }, [pendingTxs, provider]);
+    const stream = new FragStream(fragStreamUrl, (frag, receivedMs) =>
+      tracker.handleFrag(frag, receivedMs)
+    );
+    stream.start();
+    return () => stream.stop();
+  }, [fragStreamUrl, tracker]);
 
-  // Add this effect to update balance
+  // Add this effect to update balances of the whole pool
   useEffect(() => {
-    if (!wallet) return;
+    if (!provider || wallets.length === 0) return;
 
-    const updateBalance = async () => {
-      const bal = await provider.getBalance(wallet.address);
-      setBalance(bal);
+    const updateBalances = async () => {
+      // ethers sends these as a single JSON-RPC batch
+      const bals = await Promise.all(
+        wallets.map((w) => provider.getBalance(w.address))
+      );
+      setBalances(new Map(wallets.map((w, i) => [w.address, bals[i]])));
     };
 
-    updateBalance();
-    const interval = setInterval(updateBalance, 1000); // Update every second
+    updateBalances();
+    const interval = setInterval(updateBalances, 1000); // Update every second
 
     return () => clearInterval(interval);
-  }, [wallet, provider]);
+  }, [wallets, provider]);
 
   // Add this effect for ping measurement
   useEffect(() => {
+    if (!provider) return;
     const measurePing = async () => {
       const start = Date.now();
       try {
@@ -164,87 +337,320 @@ export default function Home() {
 
   // Add this effect for block number updates
   useEffect(() => {
+    if (!provider) return;
     const updateBlockNumber = async () => {
       try {
         const blockNumber = await provider.getBlockNumber();
         setCurrentBlock(blockNumber);
+        tracker.onHead(blockNumber);
       } catch (error) {
         console.error("Failed to fetch block number:", error);
       }
     };
 
+    // Receipts are resolved off this head, so poll it often enough that the
+    // measured inclusion latency isn't dominated by the polling interval
     updateBlockNumber();
-    const interval = setInterval(updateBlockNumber, 1000);
+    const interval = setInterval(updateBlockNumber, 250);
     return () => clearInterval(interval);
-  }, [provider]);
+  }, [provider, tracker]);
 
-  // Handler: airdrop funds and set up wallet
+  // Handler: airdrop funds to the first wallet and fan out to the rest
   const handleAirdrop = async () => {
-    const w = Wallet.createRandom().connect(provider);
-    setWallet(w);
+    if (!provider || chainError) return;
+    const query = networkQuery(network);
+    const pool = createWalletPool(poolSize, provider);
+    setWallets(pool);
+    // Until the faucet accepts the job, or it fails without sending, the
+    // pool holds nothing and can go. Afterwards funds may still land
+    let unfunded = true;
 
     try {
+      // Persist before asking for funds, so a refresh can't lose them
+      await saveWalletPool(pool, walletPassword || undefined);
+
+      // Prove control of the address by signing the faucet's challenge
+      const challengeResponse = await fetch(`/api/airdrop/challenge${query}`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          address: pool[0].address,
+        }),
+      });
+
+      if (!challengeResponse.ok) {
+        throw new Error("Failed to get airdrop challenge");
+      }
+
+      const challenge = await challengeResponse.json();
+      const signature = await pool[0].signMessage(challenge.message);
+
       // Call the airdrop API
-      const response = await fetch("/api/airdrop", {
+      const response = await fetch(`/api/airdrop${query}`, {
         method: "POST",
         headers: {
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
-          address: w.address,
+          address: pool[0].address,
+          nonce: challenge.nonce,
+          signature,
         }),
       });
 
       if (!response.ok) {
-        throw new Error("Airdrop failed");
+        const { error } = await response.json();
+        throw new Error(error ?? "Airdrop failed");
       }
 
-      // Wait for the transaction to be mined
-      const data = await response.json();
-      await provider.waitForTransaction(data.txHash);
+      // Wait for the faucet to send the airdrop and get it mined
+      const job = await response.json();
+      unfunded = false;
+      await waitForAirdrop(job.id, query);
 
-      // refresh the balance
-      const bal = await provider.getBalance(w.address);
-      setBalance(bal);
+      if (pool.length > 1) {
+        await fanOutFunds(pool[0], pool.slice(1), gasPrice);
+      }
+
+      // refresh the balances
+      const bals = await Promise.all(
+        pool.map((w) => provider.getBalance(w.address))
+      );
+      setBalances(new Map(pool.map((w, i) => [w.address, bals[i]])));
 
-      // Get and set the nonce
-      const currentNonce = await provider.getTransactionCount(w.address);
-      console.log("Current nonce:", currentNonce);
-      setNonce(currentNonce);
+      // Get and set the nonces
+      const counts = await Promise.all(
+        pool.map((w) => tracker.initWallet(w.address))
+      );
+      console.log("Current nonces:", counts);
     } catch (error) {
       console.error("Airdrop failed:", error);
-      setWallet(null); // Reset wallet on failure
+      if (error instanceof AirdropFailedError && error.txHashes.length === 0) {
+        unfunded = true;
+      }
+      if (unfunded) {
+        setWallets([]); // Reset wallets on failure
+        clearWalletPool();
+        return;
+      }
+
+      // Keep the pool so whatever arrived can still be used or swept
+      try {
+        const bals = await Promise.all(
+          pool.map((w) => provider.getBalance(w.address))
+        );
+        setBalances(new Map(pool.map((w, i) => [w.address, bals[i]])));
+      } catch (balanceError) {
+        console.error("Failed to resync balances:", balanceError);
+      }
     }
   };
 
-  // Wrap handleSend in useCallback
-  const handleSend = useCallback(async () => {
-    if (!wallet) return;
-    const tx: TransactionRequest = {
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!provider) return;
+    try {
+      const pool = await loadWalletPool(provider, walletPassword);
+      if (pool) setWallets(pool);
+      setWalletsLocked(false);
+    } catch (error) {
+      console.error("Failed to unlock wallets:", error);
+      setWalletError("Wrong password");
+    }
+  };
+
+  // Handler: return leftover funds to the faucet and forget the pool
+  const handleSweep = async () => {
+    setAutoSend(false);
+    setIsSweeping(true);
+    setWalletError(null);
+
+    try {
+      const response = await fetch(`/api/airdrop${networkQuery(network)}`);
+      const { fundingAddress, error } = await response.json();
+      if (!response.ok) {
+        throw new Error(error ?? "Failed to look up the faucet address");
+      }
+      if (typeof fundingAddress !== "string" || !isAddress(fundingAddress)) {
+        throw new Error("Faucet address is missing or invalid");
+      }
+      const swept = await sweepFunds(wallets, fundingAddress, gasPrice);
+      console.log("Swept back:", formatEther(swept), "ETH");
+
+      clearWalletPool();
+      setWallets([]);
+      setBalances(new Map());
+    } catch (error) {
+      console.error("Sweep failed:", error);
+      setWalletError(
+        `Sweep failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+    } finally {
+      setIsSweeping(false);
+    }
+  };
+
+  // Keep the tracker sending with the current settings
+  const privateUrl = network?.hasPrivateRpc
+    ? `${PRIVATE_RELAY_PATH}${networkQuery(network)}`
+    : null;
+  useEffect(() => {
+    tracker.settings = {
       chainId,
-      nonce,
-      gasLimit: 21_000,
-      to: wallet.address,
-      value: ethValue,
-      gasPrice,
+      template: appliedTemplate,
+      prepared: preparedTemplate,
+      fees,
+      routing,
+      privateUrl,
+    };
+  }, [tracker, chainId, appliedTemplate, preparedTemplate, fees, routing, privateUrl]);
+
+  // Send from the next wallet in turn, or from every wallet at once
+  const handleSend = useCallback(async () => {
+    if (wallets.length === 0 || chainError) return;
+
+    if (!tracker.recorder) {
+      tracker.recorder = new RunRecorder();
+      setRunStartedMs(tracker.recorder.startedMs);
+      setRunTotals(EMPTY_TOTALS);
+      setFinishedRun(null);
+      setRunShareUrl(null);
+      setRunError(null);
+    }
+
+    if (sendMode === "concurrent") {
+      await Promise.all(wallets.map((w) => tracker.send(w)));
+      return;
+    }
+
+    const w = wallets[nextWalletIndex.current % wallets.length];
+    nextWalletIndex.current += 1;
+    await tracker.send(w);
+  }, [wallets, sendMode, tracker, chainError]);
+
+  // Work out calldata and gas limit whenever a new template is applied
+  useEffect(() => {
+    if (!provider || wallets.length === 0) return;
+
+    prepareTemplate(appliedTemplate, provider, wallets[0].address)
+      .then((prepared) => {
+        setPreparedTemplate(prepared);
+        setTemplateError(null);
+      })
+      .catch((error) => {
+        console.error("Failed to prepare template:", error);
+        setPreparedTemplate(null);
+        setTemplateError(error instanceof Error ? error.message : String(error));
+      });
+  }, [appliedTemplate, wallets, provider]);
+
+  // Keep fees current, refreshing from the network when the template asks to
+  useEffect(() => {
+    if (!provider) return;
+    const updateFees = async () => {
+      try {
+        setFees(await fetchFees(appliedTemplate, provider));
+      } catch (error) {
+        console.error("Failed to fetch fees:", error);
+      }
     };
-    setNonce((n) => n + 1);
 
-    console.log("Sending transaction:", nonce);
+    updateFees();
+    if (appliedTemplate.gasSource !== "network") return;
+    const interval = setInterval(updateFees, FEE_REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [appliedTemplate, provider]);
+
+  // Set up the nonces of wallets the tracker doesn't know yet, e.g. a new
+  // pool or every wallet after a network switch
+  useEffect(() => {
+    if (!provider) return;
+    wallets
+      .filter((w) => !tracker.hasWallet(w.address))
+      .forEach((w) =>
+        tracker.initWallet(w.address).catch((error) => {
+          console.error("Failed to init nonce:", error);
+        })
+      );
+  }, [wallets, provider, tracker]);
+
+  // Periodically look for nonce gaps and stuck txs and recover from them
+  useEffect(() => {
+    if (wallets.length === 0) return;
+
+    const interval = setInterval(
+      () => tracker.checkNonces(wallets),
+      NONCE_CHECK_INTERVAL_MS
+    );
+    return () => clearInterval(interval);
+  }, [wallets, tracker]);
+
+  const updateTemplateDraft = (changes: Partial<TxTemplate>) => {
+    setTemplateDraft((draft) => ({ ...draft, ...changes }));
+  };
+
+  // Catch malformed input here, gas estimation errors surface once applied
+  const handleApplyTemplate = () => {
+    try {
+      if (templateDraft.to && !isAddress(templateDraft.to)) {
+        throw new Error("Recipient is not a valid address");
+      }
+      parseUnits(templateDraft.valueGwei || "0", "gwei");
+      parseUnits(templateDraft.gasPriceGwei, "gwei");
+      parseUnits(templateDraft.priorityFeeGwei, "gwei");
+      buildCalldata(templateDraft);
+    } catch (error) {
+      setTemplateError(error instanceof Error ? error.message : String(error));
+      return;
+    }
+    setTemplateError(null);
+    setAppliedTemplate({ ...templateDraft });
+  };
+
+  const handleEndRun = () => {
+    if (!tracker.recorder || !provider) return;
+    setAutoSend(false);
+
+    setFinishedRun(
+      tracker.recorder.report({
+        network: network?.name,
+        rpcUrl: provider._getConnection().url,
+        chainId: chainId.toString(),
+        template: appliedTemplate,
+        sendMode,
+        walletCount: wallets.length,
+      })
+    );
+    tracker.recorder = null;
+    setRunStartedMs(null);
+  };
 
-    const signed = await wallet.signTransaction(tx);
-    const sendTimeMs = Date.now();
-    const response = await provider.broadcastTransaction(signed);
+  // Upload the finished run so it can be shared as a permalink
+  const handleShareRun = async () => {
+    if (!finishedRun) return;
+    setIsSharingRun(true);
+    setRunError(null);
 
-    setPendingTxs((prev) => {
-      const next = new Map(prev);
-      next.set(nonce, {
-        hash: response.hash,
-        sendTimeMs,
+    try {
+      const response = await fetch("/api/runs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(finishedRun),
       });
-      return next;
-    });
-  }, [wallet, chainId, nonce, ethValue, gasPrice, provider]);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to upload run");
+      }
+      setRunShareUrl(`${window.location.origin}${data.url}`);
+    } catch (error) {
+      console.error("Failed to share run:", error);
+      setRunError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setIsSharingRun(false);
+    }
+  };
 
   // Add handler for RPC URL update
   const handleRpcUpdate = async (e: React.FormEvent) => {
@@ -253,38 +659,172 @@ export default function Home() {
     console.log("RPC URL updated to:", rpcUrl);
   };
 
+  // Switch every connection to another network profile. Txs and the
+  // leader schedule of the previous network would only mislead, so they go
+  const handleNetworkChange = (name: string) => {
+    const selected = networks.find((n) => n.name === name);
+    if (!selected || selected.name === network?.name) return;
+
+    handleEndRun();
+    setAutoSend(false);
+    tracker.clear();
+    setGateways([]);
+    setFutureGateways([]);
+
+    localStorage.setItem(NETWORK_STORAGE_KEY, selected.name);
+    setNetwork(selected);
+    setRpcUrl(selected.rpcUrl);
+    setProvider(new JsonRpcProvider(selected.rpcUrl));
+    console.log("Switched to network:", selected.label);
+  };
+
+  // The scheduler outlives re-renders, so it reaches the latest send
+  // callback and pending count through refs instead of restarting
+  const sendRef = useRef(handleSend);
+  const txsPerSend = useRef(1);
+  const inFlightCount = useRef(0);
   useEffect(() => {
-    if (!autoSend || !wallet) return;
+    sendRef.current = handleSend;
+    txsPerSend.current = sendMode === "concurrent" ? wallets.length : 1;
+  }, [handleSend, sendMode, wallets]);
+  useEffect(() => {
+    inFlightCount.current = pendingTxs.size;
+  }, [pendingTxs]);
 
-    const interval = setInterval(async () => {
-      try {
-        await handleSend();
-      } catch (error) {
-        console.error("Auto-send failed:", error);
-        setAutoSend(false);
-      }
-    }, 150);
+  const hasWallets = wallets.length > 0;
+  useEffect(() => {
+    if (!autoSend || !hasWallets) return;
 
-    return () => clearInterval(interval);
-  }, [autoSend, wallet, handleSend]); // Added handleSend to dependencies
+    const scheduler = new LoadScheduler(
+      loadProfile,
+      () => {
+        sendRef.current().catch((error) => {
+          console.error("Auto-send failed:", error);
+          setAutoSend(false);
+        });
+        return txsPerSend.current;
+      },
+      () => inFlightCount.current,
+      () => setAutoSend(false)
+    );
+    scheduler.start();
+    setLoadStats(scheduler.stats());
+    const interval = setInterval(
+      () => setLoadStats(scheduler.stats()),
+      LOAD_STATS_INTERVAL_MS
+    );
 
+    return () => {
+      scheduler.stop();
+      clearInterval(interval);
+      setLoadStats(scheduler.stats());
+    };
+  }, [autoSend, hasWallets, loadProfile]);
+
+  const handleAutoSendToggle = () => {
+    if (!canSend) return;
+    if (autoSend) {
+      setAutoSend(false);
+      return;
+    }
+    const error = validateLoadProfile(loadProfile);
+    setLoadError(error);
+    if (!error) setAutoSend(true);
+  };
+
+  // Follow registry updates over SSE, polling only while the stream is down
+  const networkName = network?.name;
   useEffect(() => {
+    if (!networkName) return;
+    const query = `?network=${encodeURIComponent(networkName)}`;
+    let source: EventSource | null = null;
+    let pollInterval: ReturnType<typeof setInterval> | null = null;
+    let retryTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    const applyRegistryData = (data: RegistryData) => {
+      setGateways(data.gateways);
+      setFutureGateways(data.futureGateways);
+      setRegistryStatus({
+        stale: data.stale,
+        lastError: data.lastError,
+        lastUpdated: data.lastUpdated,
+      });
+
+      tracker.applySchedule(
+        data.gateways.map((gw) => gw.url),
+        data.futureGateways
+      );
+    };
+
     const fetchGateways = async () => {
       try {
-        const response = await fetch("/api/registry");
-        const data = await response.json();
-
-        setGateways(data.gateways);
-        setFutureGateways(data.futureGateways);
+        const response = await fetch(`/api/registry${query}`);
+        if (!response.ok) {
+          throw new Error(`Registry API returned HTTP ${response.status}`);
+        }
+        applyRegistryData(await response.json());
       } catch (error) {
         console.error("Failed to fetch gateways:", error);
+        setRegistryStatus((prev) => ({
+          ...prev,
+          stale: true,
+          lastError: error instanceof Error ? error.message : String(error),
+        }));
       }
     };
 
-    fetchGateways();
-    const interval = setInterval(fetchGateways, 5000);
-    return () => clearInterval(interval);
-  }, []);
+    const startPolling = () => {
+      if (pollInterval) return;
+      fetchGateways();
+      pollInterval = setInterval(fetchGateways, REGISTRY_POLL_INTERVAL_MS);
+    };
+
+    const stopPolling = () => {
+      if (!pollInterval) return;
+      clearInterval(pollInterval);
+      pollInterval = null;
+    };
+
+    const connect = () => {
+      source = new EventSource(`/api/registry/stream${query}`);
+      source.onmessage = (event) => {
+        stopPolling();
+        applyRegistryData(JSON.parse(event.data));
+      };
+      source.onerror = () => {
+        console.warn("Registry stream unavailable, falling back to polling");
+        source?.close();
+        startPolling();
+        retryTimeout = setTimeout(connect, REGISTRY_STREAM_RETRY_MS);
+      };
+    };
+
+    connect();
+    return () => {
+      source?.close();
+      stopPolling();
+      if (retryTimeout) clearTimeout(retryTimeout);
+    };
+  }, [networkName, tracker]);
+
+  const walletStats = calculateWalletStats(wallets, confirmedTxs, pendingTxs);
+  const gatewayStats = calculateGatewayStats(confirmedTxs);
+  const endpointStats = calculateEndpointStats(confirmedTxs, pendingTxs);
+  const handoffStats = calculateHandoffStats(
+    confirmedTxs,
+    pendingTxs,
+    failedTxs
+  );
+  const routingStats = calculateRoutingStats(
+    confirmedTxs,
+    pendingTxs,
+    failedTxs
+  );
+  const balance = Array.from(balances.values()).reduce(
+    (a, b) => a + b,
+    BigInt(0)
+  );
+  const canSend = balance !== BigInt(0) && !chainError;
 
   return (
     <div className="min-h-screen bg-[#0A0A0C] p-8 font-sans text-gray-100 flex flex-col">
@@ -295,6 +835,19 @@ export default function Home() {
           </h1>
 
           <form onSubmit={handleRpcUpdate} className="flex gap-2">
+            {networks.length > 1 && (
+              <select
+                value={network?.name ?? ""}
+                onChange={(e) => handleNetworkChange(e.target.value)}
+                className="bg-[#161618] border border-[#2A2A2E] px-4 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00FFB2] text-gray-100"
+              >
+                {networks.map((n) => (
+                  <option key={n.name} value={n.name}>
+                    {n.label}
+                  </option>
+                ))}
+              </select>
+            )}
             <input
               type="text"
               value={rpcUrl}
@@ -311,6 +864,25 @@ export default function Home() {
           </form>
         </div>
 
+        {chainError && (
+          <div className="bg-[#2A2A2E] border border-[#FF4D4D] text-[#FF4D4D] px-4 py-3 rounded-xl mb-6 text-sm">
+            Wrong chain for {network?.label}: {chainError}. Sending is
+            disabled until the RPC matches the selected network.
+          </div>
+        )}
+
+        {registryStatus.stale && (
+          <div className="bg-[#2A2A2E] border border-[#FFB800] text-[#FFB800] px-4 py-3 rounded-xl mb-6 text-sm">
+            Registry data is out of date
+            {registryStatus.lastUpdated > 0 &&
+              ` (last updated ${new Date(
+                registryStatus.lastUpdated
+              ).toLocaleTimeString()})`}
+            {registryStatus.lastError && `: ${registryStatus.lastError}`}.
+            Leader schedule and gateway attribution may be wrong.
+          </div>
+        )}
+
         <div className="bg-[#161618] rounded-xl overflow-hidden border border-[#2A2A2E] mb-6">
           <table className="w-full">
             <thead className="bg-[#1A1A1C] border-b border-[#2A2A2E]">
@@ -327,6 +899,15 @@ export default function Home() {
                 <th className="text-left p-4 text-sm text-gray-400 font-medium">
                   Ping (sequencer)
                 </th>
+                <th className="text-left p-4 text-sm text-gray-400 font-medium">
+                  Uptime
+                </th>
+                <th className="text-left p-4 text-sm text-gray-400 font-medium">
+                  Errors (1m)
+                </th>
+                <th className="text-left p-4 text-sm text-gray-400 font-medium">
+                  Sync lag
+                </th>
               </tr>
             </thead>
             <tbody>
@@ -391,6 +972,30 @@ export default function Home() {
                           {gateway.ping ? `${gateway.ping}ms` : "-"}
                         </span>
                       </td>
+                      <td className="p-4 font-mono text-gray-300">
+                        {gateway.uptime !== undefined
+                          ? `${gateway.uptime}%`
+                          : "-"}
+                      </td>
+                      <td className="p-4">
+                        <span
+                          className={`font-mono ${
+                            gateway.lastError
+                              ? "text-[#FF4D4D]"
+                              : "text-gray-300"
+                          }`}
+                        >
+                          {gateway.errorRate !== undefined
+                            ? `${gateway.errorRate}%`
+                            : "-"}
+                          {gateway.lastError && ` (${gateway.lastError})`}
+                        </span>
+                      </td>
+                      <td className="p-4 font-mono text-gray-300">
+                        {gateway.syncLag !== undefined
+                          ? `${gateway.syncLag} blocks`
+                          : "-"}
+                      </td>
                     </tr>
                   );
                 });
@@ -399,11 +1004,61 @@ export default function Home() {
           </table>
         </div>
 
-        {!wallet ? (
-          <div className="flex justify-center items-center min-h-[200px]">
+        {walletsLocked ? (
+          <form
+            onSubmit={handleUnlock}
+            className="flex flex-col justify-center items-center gap-2 min-h-[200px]"
+          >
+            <p className="text-gray-300">
+              Wallets from your last session are encrypted
+            </p>
+            <div className="flex gap-2">
+              <input
+                type="password"
+                value={walletPassword}
+                onChange={(e) => setWalletPassword(e.target.value)}
+                className="bg-[#161618] border border-[#2A2A2E] px-3 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00FFB2] focus:border-transparent text-gray-100 placeholder-gray-500"
+                placeholder="Password"
+              />
+              <button
+                type="submit"
+                className="bg-[#2A2A2E] hover:bg-[#3A3A3E] text-[#00FFB2] px-6 py-2 rounded-lg transition-colors duration-200 border border-[#00FFB2]"
+              >
+                Unlock
+              </button>
+            </div>
+            {walletError && (
+              <p className="text-sm text-[#FF4D4D]">{walletError}</p>
+            )}
+          </form>
+        ) : wallets.length === 0 ? (
+          <div className="flex justify-center items-center gap-4 min-h-[200px]">
+            <label className="flex items-center gap-2 text-gray-300">
+              Wallets
+              <input
+                type="number"
+                min={1}
+                max={MAX_POOL_SIZE}
+                value={poolSize}
+                onChange={(e) =>
+                  setPoolSize(
+                    Math.min(Math.max(Number(e.target.value), 1), MAX_POOL_SIZE)
+                  )
+                }
+                className="w-20 bg-[#161618] border border-[#2A2A2E] px-3 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00FFB2] focus:border-transparent text-gray-100"
+              />
+            </label>
+            <input
+              type="password"
+              value={walletPassword}
+              onChange={(e) => setWalletPassword(e.target.value)}
+              className="bg-[#161618] border border-[#2A2A2E] px-3 py-2 rounded-lg focus:outline-none focus:ring-2 focus:ring-[#00FFB2] focus:border-transparent text-gray-100 placeholder-gray-500"
+              placeholder="Encryption password (optional)"
+            />
             <button
               onClick={handleAirdrop}
-              className="bg-[#00FFB2] hover:bg-[#00E6A1] text-[#0A0A0C] px-8 py-3 rounded-lg transition-colors duration-200 text-lg font-medium"
+              disabled={chainError !== null || network?.hasFaucet === false}
+              className="bg-[#00FFB2] hover:bg-[#00E6A1] text-[#0A0A0C] px-8 py-3 rounded-lg transition-colors duration-200 text-lg font-medium disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Airdrop ETH
             </button>
@@ -413,12 +1068,21 @@ export default function Home() {
             <div className="bg-[#161618] p-6 rounded-xl border border-[#2A2A2E]">
               <div className="flex justify-between items-start">
                 <div className="space-y-2">
-                  <p className="text-gray-300">
-                    Your address:{" "}
-                    <span className="font-mono text-[#00FFB2]">
-                      {wallet.address}
-                    </span>
-                  </p>
+                  {wallets.length === 1 ? (
+                    <p className="text-gray-300">
+                      Your address:{" "}
+                      <span className="font-mono text-[#00FFB2]">
+                        {wallets[0].address}
+                      </span>
+                    </p>
+                  ) : (
+                    <p className="text-gray-300">
+                      Wallets:{" "}
+                      <span className="font-mono text-[#00FFB2]">
+                        {wallets.length}
+                      </span>
+                    </p>
+                  )}
                   <p className="text-gray-300">
                     Balance:{" "}
                     <span className="font-mono text-[#00FFB2]">
@@ -427,14 +1091,32 @@ export default function Home() {
                         : `${formatEther(balance)} ETH`}
                     </span>
                   </p>
+                  <div className="flex gap-2 pt-2">
+                    <button
+                      onClick={() => exportWalletPool(wallets)}
+                      className="px-4 py-1 rounded-lg text-sm bg-[#2A2A2E] hover:bg-[#3A3A3E] text-gray-300 border border-[#2A2A2E] transition-colors duration-200"
+                    >
+                      Export keys
+                    </button>
+                    <button
+                      onClick={handleSweep}
+                      disabled={isSweeping}
+                      className="px-4 py-1 rounded-lg text-sm bg-[#2A2A2E] hover:bg-[#3A3A3E] text-[#FFB800] border border-[#FFB800] transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      {isSweeping ? "Sweeping..." : "Sweep back"}
+                    </button>
+                  </div>
+                  {walletError && (
+                    <p className="text-sm text-[#FF4D4D]">{walletError}</p>
+                  )}
                 </div>
 
                 <div className="flex flex-col gap-2 items-end">
                   <button
                     onClick={handleSend}
-                    disabled={balance === BigInt(0)}
+                    disabled={!canSend}
                     className={`px-6 py-2 rounded-lg transition-colors duration-200 border ${
-                      balance === BigInt(0)
+                      !canSend
                         ? "bg-[#1A1A1C] text-gray-500 border-gray-500 cursor-not-allowed"
                         : "bg-[#2A2A2E] hover:bg-[#3A3A3E] text-[#00FFB2] border-[#00FFB2]"
                     }`}
@@ -444,7 +1126,7 @@ export default function Home() {
                   <div className="flex items-center gap-2">
                     <label
                       className={`text-sm ${
-                        balance === BigInt(0)
+                        !canSend
                           ? "text-gray-500"
                           : "text-gray-300"
                       }`}
@@ -452,11 +1134,9 @@ export default function Home() {
                       Auto Send
                     </label>
                     <button
-                      onClick={() =>
-                        balance > BigInt(0) && setAutoSend(!autoSend)
-                      }
+                      onClick={handleAutoSendToggle}
                       className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors duration-200 ${
-                        balance === BigInt(0)
+                        !canSend
                           ? "bg-[#1A1A1C] cursor-not-allowed"
                           : autoSend
                           ? "bg-[#00FFB2]"
@@ -468,12 +1148,367 @@ export default function Home() {
                           autoSend
                             ? "translate-x-6 bg-white"
                             : "translate-x-1 bg-gray-400"
-                        } ${balance === BigInt(0) ? "bg-gray-600" : ""}`}
+                        } ${!canSend ? "bg-gray-600" : ""}`}
                       />
                     </button>
                   </div>
+                  {wallets.length > 1 && (
+                    <select
+                      value={sendMode}
+                      onChange={(e) => setSendMode(e.target.value as SendMode)}
+                      className="bg-[#161618] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                    >
+                      <option value="round-robin">Round-robin</option>
+                      <option value="concurrent">Concurrent</option>
+                    </select>
+                  )}
+                  <select
+                    value={routing}
+                    onChange={(e) => setRouting(e.target.value as RoutingMode)}
+                    className="bg-[#161618] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                  >
+                    {(Object.keys(ROUTING_LABELS) as RoutingMode[]).map(
+                      (mode) => (
+                        <option key={mode} value={mode}>
+                          {ROUTING_LABELS[mode]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            <div className="bg-[#161618] px-6 py-4 rounded-xl border border-[#2A2A2E]">
+              <div className="flex justify-between items-center gap-4">
+                {runStartedMs !== null ? (
+                  <p className="text-sm text-gray-300">
+                    Run in progress since{" "}
+                    <span className="font-mono text-[#00FFB2]">
+                      {new Date(runStartedMs).toLocaleTimeString()}
+                    </span>
+                    , {runTotals.totalTxs} txs sent
+                  </p>
+                ) : finishedRun ? (
+                  <p className="text-sm text-gray-300">
+                    Last run:{" "}
+                    <span className="font-mono text-[#00FFB2]">
+                      {describeRun(finishedRun)}
+                    </span>
+                  </p>
+                ) : (
+                  <p className="text-sm text-gray-500">
+                    A run starts with the first transaction sent
+                  </p>
+                )}
+                <div className="flex gap-2">
+                  {runStartedMs !== null && (
+                    <button
+                      onClick={handleEndRun}
+                      className="px-4 py-1 rounded-lg text-sm bg-[#2A2A2E] hover:bg-[#3A3A3E] text-[#FFB800] border border-[#FFB800] transition-colors duration-200"
+                    >
+                      End run
+                    </button>
+                  )}
+                  {runStartedMs === null && finishedRun && (
+                    <>
+                      <button
+                        onClick={() => downloadRunReport(finishedRun, "json")}
+                        className="px-4 py-1 rounded-lg text-sm bg-[#2A2A2E] hover:bg-[#3A3A3E] text-gray-300 border border-[#2A2A2E] transition-colors duration-200"
+                      >
+                        Export JSON
+                      </button>
+                      <button
+                        onClick={() => downloadRunReport(finishedRun, "csv")}
+                        className="px-4 py-1 rounded-lg text-sm bg-[#2A2A2E] hover:bg-[#3A3A3E] text-gray-300 border border-[#2A2A2E] transition-colors duration-200"
+                      >
+                        Export CSV
+                      </button>
+                      <button
+                        onClick={handleShareRun}
+                        disabled={isSharingRun || runShareUrl !== null}
+                        className="px-4 py-1 rounded-lg text-sm bg-[#2A2A2E] hover:bg-[#3A3A3E] text-[#00FFB2] border border-[#00FFB2] transition-colors duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        {isSharingRun ? "Uploading..." : "Share"}
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
+              {runShareUrl && (
+                <p className="text-sm text-gray-300 mt-2">
+                  Permalink:{" "}
+                  <a
+                    href={runShareUrl}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="font-mono text-[#00BFFF] hover:text-[#00FFB2] hover:underline"
+                  >
+                    {runShareUrl}
+                  </a>
+                </p>
+              )}
+              {runError && (
+                <p className="text-sm text-[#FF4D4D] mt-2">{runError}</p>
+              )}
+            </div>
+
+            <div className="bg-[#161618] p-6 rounded-xl border border-[#2A2A2E]">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-medium text-gray-100">
+                  Transaction template
+                </h2>
+                <p className="text-sm text-gray-400">
+                  Current:{" "}
+                  <span className="font-mono text-[#00FFB2]">
+                    {describeTemplate(appliedTemplate)}
+                  </span>
+                  {preparedTemplate &&
+                    ` · ${preparedTemplate.gasLimit.toString()} gas`}
+                </p>
+              </div>
+              <div className="grid grid-cols-4 gap-4">
+                <label className="space-y-1">
+                  <span className="block text-sm text-gray-400">Type</span>
+                  <select
+                    value={templateDraft.type}
+                    onChange={(e) =>
+                      updateTemplateDraft({
+                        type: e.target.value as TxTemplate["type"],
+                      })
+                    }
+                    className="w-full bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                  >
+                    <option value="legacy">Legacy</option>
+                    <option value="eip1559">EIP-1559</option>
+                  </select>
+                </label>
+                <label className="space-y-1">
+                  <span className="block text-sm text-gray-400">Recipient</span>
+                  <input
+                    type="text"
+                    value={templateDraft.to}
+                    onChange={(e) => updateTemplateDraft({ to: e.target.value })}
+                    placeholder="Self"
+                    className="w-full font-mono bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="block text-sm text-gray-400">
+                    Value (gwei)
+                  </span>
+                  <input
+                    type="text"
+                    value={templateDraft.valueGwei}
+                    onChange={(e) =>
+                      updateTemplateDraft({ valueGwei: e.target.value })
+                    }
+                    className="w-full font-mono bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                  />
+                </label>
+                <label className="space-y-1">
+                  <span className="block text-sm text-gray-400">Payload</span>
+                  <select
+                    value={templateDraft.payload}
+                    onChange={(e) =>
+                      updateTemplateDraft({
+                        payload: e.target.value as TxTemplate["payload"],
+                      })
+                    }
+                    className="w-full bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                  >
+                    <option value="transfer">Plain transfer</option>
+                    <option value="calldata">Random calldata</option>
+                    <option value="contract">Contract call</option>
+                  </select>
+                </label>
+                {templateDraft.payload === "calldata" && (
+                  <label className="space-y-1">
+                    <span className="block text-sm text-gray-400">
+                      Calldata (bytes)
+                    </span>
+                    <input
+                      type="number"
+                      min="0"
+                      value={templateDraft.calldataBytes}
+                      onChange={(e) =>
+                        updateTemplateDraft({
+                          calldataBytes: Math.max(0, Number(e.target.value) || 0),
+                        })
+                      }
+                      className="w-full font-mono bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                    />
+                  </label>
+                )}
+                {templateDraft.payload === "contract" && (
+                  <>
+                    <label className="space-y-1 col-span-2">
+                      <span className="block text-sm text-gray-400">
+                        ABI fragment
+                      </span>
+                      <input
+                        type="text"
+                        value={templateDraft.abiFragment}
+                        onChange={(e) =>
+                          updateTemplateDraft({ abiFragment: e.target.value })
+                        }
+                        placeholder="function transfer(address to, uint256 amount)"
+                        className="w-full font-mono bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                      />
+                    </label>
+                    <label className="space-y-1 col-span-2">
+                      <span className="block text-sm text-gray-400">
+                        Arguments (JSON)
+                      </span>
+                      <input
+                        type="text"
+                        value={templateDraft.abiArgs}
+                        onChange={(e) =>
+                          updateTemplateDraft({ abiArgs: e.target.value })
+                        }
+                        className="w-full font-mono bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                      />
+                    </label>
+                  </>
+                )}
+                <label className="space-y-1">
+                  <span className="block text-sm text-gray-400">Gas price</span>
+                  <select
+                    value={templateDraft.gasSource}
+                    onChange={(e) =>
+                      updateTemplateDraft({
+                        gasSource: e.target.value as TxTemplate["gasSource"],
+                      })
+                    }
+                    className="w-full bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                  >
+                    <option value="fixed">Fixed</option>
+                    <option value="network">From network</option>
+                  </select>
+                </label>
+                {templateDraft.gasSource === "fixed" && (
+                  <label className="space-y-1">
+                    <span className="block text-sm text-gray-400">
+                      {templateDraft.type === "legacy"
+                        ? "Gas price (gwei)"
+                        : "Max fee (gwei)"}
+                    </span>
+                    <input
+                      type="text"
+                      value={templateDraft.gasPriceGwei}
+                      onChange={(e) =>
+                        updateTemplateDraft({ gasPriceGwei: e.target.value })
+                      }
+                      className="w-full font-mono bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                    />
+                  </label>
+                )}
+                {templateDraft.type === "eip1559" && (
+                  <label className="space-y-1">
+                    <span className="block text-sm text-gray-400">
+                      {templateDraft.gasSource === "fixed"
+                        ? "Priority fee (gwei)"
+                        : "Fallback priority fee (gwei)"}
+                    </span>
+                    <input
+                      type="text"
+                      value={templateDraft.priorityFeeGwei}
+                      onChange={(e) =>
+                        updateTemplateDraft({ priorityFeeGwei: e.target.value })
+                      }
+                      className="w-full font-mono bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                    />
+                  </label>
+                )}
+                <label className="space-y-1">
+                  <span className="block text-sm text-gray-400">
+                    Gas limit (0 = estimate)
+                  </span>
+                  <input
+                    type="number"
+                    min="0"
+                    value={templateDraft.gasLimit}
+                    onChange={(e) =>
+                      updateTemplateDraft({
+                        gasLimit: Math.max(0, Number(e.target.value) || 0),
+                      })
+                    }
+                    className="w-full font-mono bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2]"
+                  />
+                </label>
+              </div>
+              <div className="flex items-center gap-4 mt-4">
+                <button
+                  onClick={handleApplyTemplate}
+                  className="px-4 py-1 rounded-lg text-sm bg-[#2A2A2E] hover:bg-[#3A3A3E] text-[#00FFB2] border border-[#00FFB2] transition-colors duration-200"
+                >
+                  Apply
+                </button>
+                {templateError && (
+                  <p className="text-sm text-[#FF4D4D]">{templateError}</p>
+                )}
+              </div>
+            </div>
+
+            <div className="bg-[#161618] p-6 rounded-xl border border-[#2A2A2E]">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-lg font-medium text-gray-100">
+                  Auto Send load
+                </h2>
+                <p className="text-sm text-gray-400">
+                  Profile:{" "}
+                  <span className="font-mono text-[#00FFB2]">
+                    {describeLoadProfile(loadProfile)}
+                  </span>
+                </p>
+              </div>
+              <div className="grid grid-cols-4 gap-4">
+                <label className="space-y-1">
+                  <span className="block text-sm text-gray-400">Shape</span>
+                  <select
+                    value={loadProfile.kind}
+                    disabled={autoSend}
+                    onChange={(e) =>
+                      setLoadProfile((prev) => ({
+                        ...prev,
+                        kind: e.target.value as LoadProfileKind,
+                      }))
+                    }
+                    className="w-full bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2] disabled:opacity-50"
+                  >
+                    {(Object.keys(LOAD_PROFILE_LABELS) as LoadProfileKind[]).map(
+                      (kind) => (
+                        <option key={kind} value={kind}>
+                          {LOAD_PROFILE_LABELS[kind]}
+                        </option>
+                      )
+                    )}
+                  </select>
+                </label>
+                {LOAD_FIELDS.filter(
+                  ({ kinds }) => !kinds || kinds.includes(loadProfile.kind)
+                ).map(({ key, label }) => (
+                  <label key={key} className="space-y-1">
+                    <span className="block text-sm text-gray-400">{label}</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={loadProfile[key]}
+                      disabled={autoSend}
+                      onChange={(e) =>
+                        setLoadProfile((prev) => ({
+                          ...prev,
+                          [key]: Number(e.target.value),
+                        }))
+                      }
+                      className="w-full font-mono bg-[#1A1A1C] border border-[#2A2A2E] px-3 py-1 rounded-lg text-sm text-gray-300 focus:outline-none focus:ring-2 focus:ring-[#00FFB2] disabled:opacity-50"
+                    />
+                  </label>
+                ))}
+              </div>
+              {loadError && (
+                <p className="text-sm text-[#FF4D4D] mt-4">{loadError}</p>
+              )}
             </div>
 
             <div className="bg-[#161618] p-6 rounded-xl border border-[#2A2A2E] mb-6">
@@ -481,13 +1516,25 @@ export default function Home() {
                 <div className="space-y-1">
                   <p className="text-sm text-gray-400">Total TXs</p>
                   <p className="text-2xl font-mono text-[#00FFB2]">
-                    {calculateStats(confirmedTxs, pendingTxs.size).totalTxs}
+                    {runTotals.totalTxs}
                   </p>
                 </div>
                 <div className="space-y-1">
                   <p className="text-sm text-gray-400">Confirmed TXs</p>
                   <p className="text-2xl font-mono text-[#00FFB2]">
-                    {calculateStats(confirmedTxs, pendingTxs.size).confirmedTxs}
+                    {runTotals.confirmedTxs}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-gray-400">Failed / Reorged TXs</p>
+                  <p className="text-2xl font-mono text-[#00FFB2]">
+                    {runTotals.failedTxs} / {runTotals.brokenTxs}
+                  </p>
+                </div>
+                <div className="space-y-1">
+                  <p className="text-sm text-gray-400">Replaced TXs</p>
+                  <p className="text-2xl font-mono text-[#00FFB2]">
+                    {runTotals.replacedTxs}
                   </p>
                 </div>
                 <div className="space-y-1">
@@ -502,41 +1549,351 @@ export default function Home() {
                     {currentBlock}
                   </p>
                 </div>
-                <div className="col-span-2">
-                  <p className="text-sm text-gray-400 mb-2">
-                    Confirmation Latencies
-                  </p>
-                  <div className="grid grid-cols-2 gap-4">
+                {loadStats && (
+                  <>
                     <div className="space-y-1">
-                      <p className="text-sm text-gray-400">Median</p>
+                      <p className="text-sm text-gray-400">Target TPS</p>
                       <p className="text-2xl font-mono text-[#00FFB2]">
-                        {
-                          calculateStats(confirmedTxs, pendingTxs.size)
-                            .p50Latency
-                        }
-                        ms
+                        {loadStats.targetTps.toFixed(1)}
                       </p>
                     </div>
                     <div className="space-y-1">
-                      <p className="text-sm text-gray-400">Average</p>
+                      <p className="text-sm text-gray-400">Achieved TPS</p>
+                      <p
+                        className={`text-2xl font-mono ${
+                          loadStats.achievedTps < loadStats.targetTps * 0.9
+                            ? "text-[#FFB800]"
+                            : "text-[#00FFB2]"
+                        }`}
+                      >
+                        {loadStats.achievedTps.toFixed(1)}
+                      </p>
+                    </div>
+                    <div className="space-y-1">
+                      <p className="text-sm text-gray-400">Skipped sends</p>
                       <p className="text-2xl font-mono text-[#00FFB2]">
-                        {
-                          calculateStats(confirmedTxs, pendingTxs.size)
-                            .avgLatency
-                        }
-                        ms
+                        {loadStats.skippedTxs}
                       </p>
                     </div>
-                  </div>
+                    <div className="col-span-3 space-y-1">
+                      <p className="text-sm text-gray-400">Load</p>
+                      <p className="text-sm font-mono text-gray-300 pt-2">
+                        {loadStats.sentTxs} txs in{" "}
+                        {Math.round(loadStats.elapsedS)}s,{" "}
+                        {describeLoadProfile(loadProfile)}
+                        {!autoSend && " (stopped)"}
+                      </p>
+                    </div>
+                  </>
+                )}
+                <div className="col-span-3">
+                  <LatencySummaryGrid
+                    title="Preconf Latency (frag)"
+                    snapshot={runTotals.preconf}
+                  />
+                </div>
+                <div className="col-span-3">
+                  <LatencySummaryGrid
+                    title="Inclusion Latency (block)"
+                    snapshot={runTotals.inclusion}
+                  />
+                </div>
+                <div className="col-span-3">
+                  <LatencyHistogramChart
+                    title="Preconf distribution"
+                    snapshot={runTotals.preconf}
+                    color={PRECONF_COLOR}
+                  />
+                </div>
+                <div className="col-span-3">
+                  <LatencyHistogramChart
+                    title="Inclusion distribution"
+                    snapshot={runTotals.inclusion}
+                  />
+                </div>
+                <div className="col-span-6">
+                  <LatencyTimeChart
+                    preconf={runTotals.preconf.points}
+                    inclusion={runTotals.inclusion.points}
+                  />
                 </div>
               </div>
             </div>
 
+            {wallets.length > 1 && (
+              <div className="bg-[#161618] rounded-xl overflow-hidden border border-[#2A2A2E]">
+                <table className="w-full">
+                  <thead className="bg-[#1A1A1C]">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Wallet
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Balance
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Total TXs
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Confirmed
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Preconf p50
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Inclusion p50
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[#2A2A2E]">
+                    {walletStats.map((ws) => (
+                      <tr key={ws.address}>
+                        <td className="px-4 py-2 font-mono text-sm text-[#00FFB2]">
+                          {shortAddress(ws.address)}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {formatEther(balances.get(ws.address) ?? BigInt(0))}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {ws.totalTxs}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {ws.confirmedTxs}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {ws.p50PreconfLatency}ms
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {ws.p50InclusionLatency}ms
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {gatewayStats.length > 0 && (
+              <div className="bg-[#161618] rounded-xl overflow-hidden border border-[#2A2A2E]">
+                <table className="w-full">
+                  <caption className="caption-top px-4 py-2 text-left text-xs text-gray-500">
+                    Last {MAX_RECENT_TXS} confirmed txs, the totals above
+                    cover the whole run
+                  </caption>
+                  <thead className="bg-[#1A1A1C]">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Gateway
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        TXs
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Reorged / dropped
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Preconf p50 / avg / p99
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Inclusion p50 / avg / p99
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[#2A2A2E]">
+                    {gatewayStats.map((gs) => (
+                      <tr key={gs.url}>
+                        <td className="px-4 py-2 font-mono text-sm text-[#00FFB2]">
+                          {gatewayLabel(gs.url)}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {gs.count}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {gs.broken}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {gs.preconf.p50} / {gs.preconf.avg} / {gs.preconf.p99}ms
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {gs.inclusion.p50} / {gs.inclusion.avg} /{" "}
+                          {gs.inclusion.p99}ms
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {endpointStats.length > 0 && (
+              <div className="bg-[#161618] rounded-xl overflow-hidden border border-[#2A2A2E]">
+                <table className="w-full">
+                  <thead className="bg-[#1A1A1C]">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Endpoint
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Sent
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Errors
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        First ack
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Ack p50 / p99
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Preconf p50 (won)
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Inclusion p50 (won)
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[#2A2A2E]">
+                    {endpointStats.map((es) => (
+                      <tr key={es.label}>
+                        <td className="px-4 py-2 font-mono text-sm text-[#00FFB2]">
+                          {gatewayLabel(es.label)}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {es.sent}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {es.errors}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {es.winRate.toFixed(1)}%
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {es.ack.p50} / {es.ack.p99}ms
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {es.preconf.p50}ms
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {es.inclusion.p50}ms
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {handoffStats.some((hs) => hs.count > 0) && (
+              <div className="bg-[#161618] rounded-xl overflow-hidden border border-[#2A2A2E]">
+                <table className="w-full">
+                  <caption className="caption-top px-4 py-2 text-left text-xs text-gray-500">
+                    Pending txs and the last {MAX_RECENT_TXS} confirmed and
+                    failed ones, the totals above cover the whole run
+                  </caption>
+                  <thead className="bg-[#1A1A1C]">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Slot position
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        TXs
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Failed / stuck
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Preconf p50 / p99
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Inclusion p50 / p99
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[#2A2A2E]">
+                    {handoffStats.map((hs) => (
+                      <tr key={hs.label}>
+                        <td className="px-4 py-2 text-sm text-[#00FFB2]">
+                          {hs.label}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {hs.count}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {hs.failureRate.toFixed(1)}%
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {hs.preconf.p50} / {hs.preconf.p99}ms
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {hs.inclusion.p50} / {hs.inclusion.p99}ms
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
+            {routingStats.length > 0 && (
+              <div className="bg-[#161618] rounded-xl overflow-hidden border border-[#2A2A2E]">
+                <table className="w-full">
+                  <caption className="caption-top px-4 py-2 text-left text-xs text-gray-500">
+                    Pending txs and the last {MAX_RECENT_TXS} confirmed and
+                    failed ones, the totals above cover the whole run
+                  </caption>
+                  <thead className="bg-[#1A1A1C]">
+                    <tr>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Routing
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        TXs
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Failed / stuck
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Preconf p50 / p99
+                      </th>
+                      <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                        Inclusion p50 / p99
+                      </th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-[#2A2A2E]">
+                    {routingStats.map((rs) => (
+                      <tr key={rs.label}>
+                        <td className="px-4 py-2 text-sm text-[#00FFB2]">
+                          {rs.label}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {rs.count}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {rs.failureRate.toFixed(1)}%
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {rs.preconf.p50} / {rs.preconf.p99}ms
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {rs.inclusion.p50} / {rs.inclusion.p99}ms
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             <div className="bg-[#161618] rounded-xl overflow-hidden border border-[#2A2A2E]">
               <table className="w-full">
                 <thead className="bg-[#1A1A1C]">
                   <tr>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider"></th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Wallet
+                    </th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                       Tx Hash
                     </th>
@@ -547,61 +1904,111 @@ export default function Home() {
                       Block #
                     </th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
-                      Latency
+                      Preconf
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Inclusion
                     </th>
-                    {/* <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                       Gateway
                     </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Slot
+                    </th>
+                    <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
+                      Template
+                    </th>
                     <th className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider">
                       Network
-                    </th> */}
+                    </th>
                   </tr>
                 </thead>
                 <tbody className="divide-y divide-[#2A2A2E]">
-                  {[...confirmedTxs.entries(), ...pendingTxs.entries()]
-                    .sort(([nonceA], [nonceB]) => nonceB - nonceA)
+                  {[
+                    ...confirmedTxs.entries(),
+                    ...pendingTxs.entries(),
+                    ...failedTxs.entries(),
+                  ]
+                    .sort(([, a], [, b]) => b.sendTimeMs - a.sendTimeMs)
                     .slice(0, 50)
-                    .map(([nonce, info]) => (
+                    .map(([key, info]) => (
                       <tr
-                        key={nonce}
+                        key={key}
                         className="hover:bg-[#1A1A1C] transition-colors duration-150"
                       >
                         <td className="px-4 py-2 font-mono text-sm text-gray-300">
-                          {nonce}
+                          {info.nonce}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {shortAddress(info.from)}
                         </td>
                         <td className="px-4 py-2 font-mono text-sm text-[#00BFFF]">
-                          <a
-                            href={`${process.env.NEXT_PUBLIC_EXPLORER_URL}/tx/${info.hash}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="hover:text-[#00FFB2] hover:underline"
-                          >
-                            {info.hash.slice(0, 10)}...
-                          </a>
+                          {network?.explorerUrl ? (
+                            <a
+                              href={`${network.explorerUrl}/tx/${info.hash}`}
+                              target="_blank"
+                              rel="noopener noreferrer"
+                              className="hover:text-[#00FFB2] hover:underline"
+                            >
+                              {info.hash.slice(0, 10)}...
+                            </a>
+                          ) : (
+                            `${info.hash.slice(0, 10)}...`
+                          )}
                         </td>
                         <td className="px-4 py-2 text-sm">
                           <span
                             className={`inline-block px-3 py-1 rounded-lg text-xs font-medium transition-all duration-300 ${
-                              info.blockNumber
+                              info.error
+                                ? "bg-[#2A2A2E] text-[#FF4D4D] border border-[#FF4D4D]"
+                                : info.broken
+                                ? "bg-[#2A2A2E] text-[#FF8A3D] border border-[#FF8A3D]"
+                                : info.blockNumber
                                 ? "bg-[#2A2A2E] text-[#00FFB2] border border-[#00FFB2]"
+                                : info.preconfLatencyMs !== undefined
+                                ? "bg-[#2A2A2E] text-[#7F5FFF] border border-[#7F5FFF]"
                                 : "bg-[#2A2A2E] text-[#FFB800] border border-[#FFB800]"
                             }`}
+                            title={info.broken?.reason}
                           >
-                            {info.blockNumber ? "confirmed" : "pending"}
+                            {info.error
+                              ? `failed (${info.error})`
+                              : info.broken
+                              ? info.broken.kind
+                              : info.blockNumber
+                              ? "confirmed"
+                              : info.preconfLatencyMs !== undefined
+                              ? "preconfirmed"
+                              : "pending"}
                           </span>
                         </td>
                         <td className="px-4 py-2 font-mono text-sm text-gray-300">
                           {info.blockNumber ?? "-"}
                         </td>
                         <td className="px-4 py-2 font-mono text-sm text-gray-300">
-                          {info.latencyMs ? info.latencyMs + "ms" : "-"}
+                          {info.preconfLatencyMs !== undefined
+                            ? info.preconfLatencyMs + "ms"
+                            : "-"}
                         </td>
-                        {/* <td className="px-4 py-2 font-mono text-sm text-gray-300">
-                          -
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {info.inclusionLatencyMs
+                            ? info.inclusionLatencyMs + "ms"
+                            : "-"}
                         </td>
                         <td className="px-4 py-2 font-mono text-sm text-gray-300">
-                          -
-                        </td> */}
+                          {info.gatewayUrl ? gatewayLabel(info.gatewayUrl) : "-"}
+                        </td>
+                        <td className="px-4 py-2 text-sm text-gray-300">
+                          {info.handoff
+                            ? formatHandoffPosition(info.handoff)
+                            : "-"}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {info.template}
+                        </td>
+                        <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                          {info.chainId}
+                        </td>
                       </tr>
                     ))}
                 </tbody>
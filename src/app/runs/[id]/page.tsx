@@ -0,0 +1,215 @@
+import { notFound } from "next/navigation";
+import {
+  LatencyHistogramChart,
+  LatencySummaryGrid,
+  LatencyTimeChart,
+  PRECONF_COLOR,
+} from "@/components/LatencyCharts";
+import { gatewayLabel, shortAddress } from "@/lib/format";
+import { formatHandoffPosition } from "@/lib/handoff";
+import { describeRun, runTxStatus } from "@/lib/runReport";
+import { describeTemplate } from "@/lib/txTemplate";
+import { runStore } from "@/lib/runStore";
+
+// Rendering every tx of a long run would make the page unusable, the full
+// list is in the JSON and CSV downloads
+const MAX_TABLE_ROWS = 1000;
+
+const STATUS_CLASSES = {
+  failed: "text-[#FF4D4D] border-[#FF4D4D]",
+  reorged: "text-[#FF8A3D] border-[#FF8A3D]",
+  dropped: "text-[#FF8A3D] border-[#FF8A3D]",
+  confirmed: "text-[#00FFB2] border-[#00FFB2]",
+  preconfirmed: "text-[#7F5FFF] border-[#7F5FFF]",
+  pending: "text-[#FFB800] border-[#FFB800]",
+};
+
+export default async function RunPage({
+  params,
+}: {
+  params: Promise<{ id: string }>;
+}) {
+  const { id } = await params;
+  const report = await runStore.get(id);
+  if (!report) notFound();
+
+  const { totals } = report;
+  const meta = [
+    ["Started", new Date(report.startedMs).toISOString()],
+    ["Ended", new Date(report.endedMs).toISOString()],
+    ["Network", report.network ?? "-"],
+    ["RPC URL", report.rpcUrl],
+    ["Chain ID", report.chainId],
+    ["Template", describeTemplate(report.template)],
+    ["Send mode", `${report.sendMode}, ${report.walletCount} wallet(s)`],
+    ["Send rate", `${report.sendRate} tx/s`],
+  ];
+  const counts = [
+    ["Total TXs", totals.totalTxs],
+    ["Confirmed TXs", totals.confirmedTxs],
+    ["Failed TXs", totals.failedTxs],
+    ["Replaced TXs", totals.replacedTxs],
+    // Reports from before reorg detection don't have the count
+    ["Reorged / dropped TXs", totals.brokenTxs ?? 0],
+  ];
+
+  return (
+    <div className="min-h-screen bg-[#0A0A0C] p-8 font-sans text-gray-100">
+      <div className="max-w-6xl mx-auto space-y-6">
+        <div className="flex justify-between items-end">
+          <div>
+            <h1 className="text-2xl font-medium text-gray-100">Run {id}</h1>
+            <p className="text-sm text-gray-400">{describeRun(report)}</p>
+          </div>
+          <div className="flex gap-2">
+            <a
+              href={`/api/runs/${id}`}
+              download={`break-my-frags-run-${id}.json`}
+              className="px-4 py-1 rounded-lg text-sm bg-[#2A2A2E] hover:bg-[#3A3A3E] text-gray-300 border border-[#2A2A2E] transition-colors duration-200"
+            >
+              Download JSON
+            </a>
+            <a
+              href={`/api/runs/${id}?format=csv`}
+              className="px-4 py-1 rounded-lg text-sm bg-[#2A2A2E] hover:bg-[#3A3A3E] text-gray-300 border border-[#2A2A2E] transition-colors duration-200"
+            >
+              Download CSV
+            </a>
+          </div>
+        </div>
+
+        <div className="bg-[#161618] p-6 rounded-xl border border-[#2A2A2E] grid grid-cols-4 gap-4">
+          {meta.map(([label, value]) => (
+            <div key={label} className="space-y-1">
+              <p className="text-sm text-gray-400">{label}</p>
+              <p className="font-mono text-sm text-gray-300 break-all">
+                {value}
+              </p>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-[#161618] p-6 rounded-xl border border-[#2A2A2E]">
+          <div className="grid grid-cols-6 gap-4">
+            {counts.map(([label, value]) => (
+              <div key={label} className="space-y-1">
+                <p className="text-sm text-gray-400">{label}</p>
+                <p className="text-2xl font-mono text-[#00FFB2]">{value}</p>
+              </div>
+            ))}
+            <div className="col-span-1" />
+            <div className="col-span-3">
+              <LatencySummaryGrid
+                title="Preconf Latency (frag)"
+                snapshot={totals.preconf}
+              />
+            </div>
+            <div className="col-span-3">
+              <LatencySummaryGrid
+                title="Inclusion Latency (block)"
+                snapshot={totals.inclusion}
+              />
+            </div>
+            <div className="col-span-3">
+              <LatencyHistogramChart
+                title="Preconf distribution"
+                snapshot={totals.preconf}
+                color={PRECONF_COLOR}
+              />
+            </div>
+            <div className="col-span-3">
+              <LatencyHistogramChart
+                title="Inclusion distribution"
+                snapshot={totals.inclusion}
+              />
+            </div>
+            <div className="col-span-6">
+              <LatencyTimeChart
+                preconf={totals.preconf.points}
+                inclusion={totals.inclusion.points}
+              />
+            </div>
+          </div>
+        </div>
+
+        <div className="bg-[#161618] rounded-xl overflow-hidden border border-[#2A2A2E]">
+          <table className="w-full">
+            <thead className="bg-[#1A1A1C]">
+              <tr>
+                {[
+                  "Nonce",
+                  "Wallet",
+                  "Tx Hash",
+                  "Status",
+                  "Block #",
+                  "Preconf",
+                  "Inclusion",
+                  "Gateway",
+                  "Slot",
+                ].map((label) => (
+                  <th
+                    key={label}
+                    className="px-4 py-2 text-left text-xs font-medium text-gray-400 uppercase tracking-wider"
+                  >
+                    {label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-[#2A2A2E]">
+              {report.txs.slice(0, MAX_TABLE_ROWS).map((tx) => {
+                const status = runTxStatus(tx);
+                return (
+                  <tr key={tx.hash}>
+                    <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                      {tx.nonce}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                      {shortAddress(tx.from)}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-sm text-[#00BFFF]">
+                      {tx.hash.slice(0, 10)}...
+                    </td>
+                    <td className="px-4 py-2 text-sm">
+                      <span
+                        className={`inline-block px-3 py-1 rounded-lg text-xs font-medium bg-[#2A2A2E] border ${STATUS_CLASSES[status]}`}
+                        title={tx.broken?.reason}
+                      >
+                        {tx.error ? `failed (${tx.error})` : status}
+                      </span>
+                    </td>
+                    <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                      {tx.blockNumber ?? "-"}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                      {tx.preconfLatencyMs !== undefined
+                        ? tx.preconfLatencyMs + "ms"
+                        : "-"}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                      {tx.inclusionLatencyMs !== undefined
+                        ? tx.inclusionLatencyMs + "ms"
+                        : "-"}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-sm text-gray-300">
+                      {tx.gatewayUrl ? gatewayLabel(tx.gatewayUrl) : "-"}
+                    </td>
+                    <td className="px-4 py-2 text-sm text-gray-300">
+                      {tx.handoff ? formatHandoffPosition(tx.handoff) : "-"}
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          {report.txs.length > MAX_TABLE_ROWS && (
+            <p className="px-4 py-2 text-sm text-gray-500">
+              Showing the first {MAX_TABLE_ROWS} of {report.txs.length} txs,
+              download the report for the rest.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { LatencyPoint, LatencySnapshot } from "@/lib/latencyStats";
+
+export const PRECONF_COLOR = "#7F5FFF";
+export const INCLUSION_COLOR = "#00FFB2";
+
+function formatElapsed(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  return seconds < 120 ? `${seconds}s` : `${Math.round(seconds / 60)}m`;
+}
+
+export function LatencySummaryGrid({
+  title,
+  snapshot,
+}: {
+  title: string;
+  snapshot: LatencySnapshot;
+}) {
+  const { summary } = snapshot;
+  const cells = [
+    ["Median", summary.p50],
+    ["p90", summary.p90],
+    ["p99", summary.p99],
+    ["p99.9", summary.p999],
+    ["Average", summary.avg],
+    ["Min", summary.min],
+    ["Max", summary.max],
+    ["Jitter", summary.jitter],
+  ];
+
+  return (
+    <div>
+      <p className="text-sm text-gray-400 mb-2">
+        {title}{" "}
+        <span className="text-gray-500">({summary.count} samples)</span>
+      </p>
+      <div className="grid grid-cols-4 gap-4">
+        {cells.map(([label, value]) => (
+          <div key={label} className="space-y-1">
+            <p className="text-sm text-gray-400">{label}</p>
+            <p className="text-xl font-mono text-[#00FFB2]">{value}ms</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Bars over log-spaced bins, so both the body and the tail stay readable
+export function LatencyHistogramChart({
+  title,
+  snapshot,
+  color = INCLUSION_COLOR,
+}: {
+  title: string;
+  snapshot: LatencySnapshot;
+  color?: string;
+}) {
+  const { bins, summary } = snapshot;
+  const width = 300;
+  const height = 100;
+  const maxCount = Math.max(1, ...bins.map((bin) => bin.count));
+  const barWidth = bins.length > 0 ? width / bins.length : 0;
+
+  return (
+    <div>
+      <p className="text-sm text-gray-400 mb-2">{title}</p>
+      {bins.length === 0 ? (
+        <p className="text-sm text-gray-500">No samples yet</p>
+      ) : (
+        <>
+          <svg
+            viewBox={`0 0 ${width} ${height}`}
+            preserveAspectRatio="none"
+            className="w-full h-24 bg-[#1A1A1C] rounded"
+          >
+            {bins.map((bin, i) => {
+              const barHeight = (bin.count / maxCount) * (height - 4);
+              return (
+                <rect
+                  key={i}
+                  x={i * barWidth + 0.5}
+                  y={height - barHeight}
+                  width={Math.max(0, barWidth - 1)}
+                  height={barHeight}
+                  fill={color}
+                >
+                  <title>
+                    {bin.fromMs}-{bin.toMs}ms: {bin.count}
+                  </title>
+                </rect>
+              );
+            })}
+          </svg>
+          <div className="flex justify-between text-xs font-mono text-gray-500 mt-1">
+            <span>{summary.min}ms</span>
+            <span>p50 {summary.p50}ms</span>
+            <span>p99 {summary.p99}ms</span>
+            <span>{summary.max}ms</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+export function LatencyTimeChart({
+  preconf,
+  inclusion,
+}: {
+  preconf: LatencyPoint[];
+  inclusion: LatencyPoint[];
+}) {
+  const width = 600;
+  const height = 120;
+  const all = [...preconf, ...inclusion];
+  if (all.length === 0) {
+    return (
+      <div>
+        <p className="text-sm text-gray-400 mb-2">Latency over time</p>
+        <p className="text-sm text-gray-500">No samples yet</p>
+      </div>
+    );
+  }
+
+  const startMs = Math.min(...all.map((point) => point.timeMs));
+  const endMs = Math.max(startMs + 1, ...all.map((point) => point.timeMs));
+  const maxMs = Math.max(1, ...all.map((point) => point.avg));
+  const line = (points: LatencyPoint[]) =>
+    points
+      .map(
+        (point) =>
+          `${((point.timeMs - startMs) / (endMs - startMs)) * width},${
+            height - (point.avg / maxMs) * (height - 4)
+          }`
+      )
+      .join(" ");
+
+  return (
+    <div>
+      <div className="flex justify-between mb-2">
+        <p className="text-sm text-gray-400">Latency over time (average)</p>
+        <p className="text-xs text-gray-500 space-x-3">
+          <span style={{ color: PRECONF_COLOR }}>preconf</span>
+          <span style={{ color: INCLUSION_COLOR }}>inclusion</span>
+          <span className="font-mono">max {maxMs}ms</span>
+        </p>
+      </div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        preserveAspectRatio="none"
+        className="w-full h-32 bg-[#1A1A1C] rounded"
+      >
+        <polyline
+          points={line(inclusion)}
+          fill="none"
+          stroke={INCLUSION_COLOR}
+          strokeWidth="1.5"
+          vectorEffect="non-scaling-stroke"
+        />
+        <polyline
+          points={line(preconf)}
+          fill="none"
+          stroke={PRECONF_COLOR}
+          strokeWidth="1.5"
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs font-mono text-gray-500 mt-1">
+        <span>0s</span>
+        <span>{formatElapsed(endMs - startMs)}</span>
+      </div>
+    </div>
+  );
+}
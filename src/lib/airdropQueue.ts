@@ -0,0 +1,287 @@
+import { randomUUID } from 'crypto';
+import { JsonRpcProvider, Wallet, keccak256 } from 'ethers';
+import { classifySendError } from '@/lib/nonceManager';
+import { NetworkProfile, fundingKey } from '@/lib/networks';
+import { airdropJobs } from '@/lib/metrics';
+
+const MAX_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 500;
+const CONFIRM_TIMEOUT_MS = 60_000;
+const JOB_TTL_MS = 60 * 60 * 1000;
+const BALANCE_TIMEOUT_MS = 5000;
+
+export type AirdropJobStatus = "queued" | "sending" | "sent" | "confirmed" | "failed";
+
+export type AirdropJob = {
+  id: string;
+  recipients: string[];
+  amount: bigint; // Per recipient
+  status: AirdropJobStatus;
+  txHashes: string[];
+  error?: string;
+  createdMs: number;
+  updatedMs: number;
+};
+
+// Errors that a fresh nonce or a second try can fix
+const RETRYABLE = ["nonce-too-low", "underpriced", "timeout"];
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+/**
+ * Owns the funding wallet of one network and its nonce. Jobs are sent
+ * strictly in order, one recipient after another, so concurrent requests
+ * never race on the nonce; known nonce errors resync and retry with backoff.
+ */
+class AirdropQueue {
+  private static instances: Map<string, AirdropQueue> = new Map();
+  private provider: JsonRpcProvider;
+  private wallet: Wallet;
+  // Checked once before the first send, funds must not leave on the wrong chain
+  private chainChecked = false;
+  private jobs: Map<string, AirdropJob> = new Map();
+  private queue: AirdropJob[] = [];
+  // Called with the recipients a failed job never paid, e.g. to refund limits
+  private onUnsent: Map<string, (unsent: string[]) => void> = new Map();
+  private processing = false;
+  private nextNonce: number | null = null;
+  // Set by confirmation tracking, which runs beside the sends. The send loop
+  // drops its nonce before the next send rather than having it pulled away
+  // mid-send
+  private nonceStale = false;
+
+  private constructor(private network: NetworkProfile, key: string) {
+    this.provider = new JsonRpcProvider(network.privateRpcUrl || network.rpcUrl);
+    this.wallet = new Wallet(key, this.provider);
+  }
+
+  // Null when the network has no funding key configured
+  public static forNetwork(network: NetworkProfile): AirdropQueue | null {
+    let queue = AirdropQueue.instances.get(network.name);
+    if (!queue) {
+      const key = fundingKey(network);
+      if (!key) return null;
+      queue = new AirdropQueue(network, key);
+      AirdropQueue.instances.set(network.name, queue);
+    }
+    return queue;
+  }
+
+  public get fundingAddress() {
+    return this.wallet.address;
+  }
+
+  // Rejects rather than waiting on an RPC that does not answer
+  public async getBalance(): Promise<bigint> {
+    let timeout: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        this.provider.getBalance(this.wallet.address),
+        new Promise<never>((_, reject) => {
+          timeout = setTimeout(
+            () => reject(new Error(`No balance within ${BALANCE_TIMEOUT_MS}ms`)),
+            BALANCE_TIMEOUT_MS
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  public enqueue(
+    recipients: string[],
+    amount: bigint,
+    onUnsent?: (unsent: string[]) => void
+  ): AirdropJob {
+    this.pruneJobs();
+
+    const now = Date.now();
+    const job: AirdropJob = {
+      id: randomUUID(),
+      recipients,
+      amount,
+      status: "queued",
+      txHashes: [],
+      createdMs: now,
+      updatedMs: now,
+    };
+    this.jobs.set(job.id, job);
+    if (onUnsent) {
+      this.onUnsent.set(job.id, onUnsent);
+    }
+    this.queue.push(job);
+    this.process();
+    return job;
+  }
+
+  public getJob(id: string): AirdropJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  private update(job: AirdropJob, changes: Partial<AirdropJob>) {
+    Object.assign(job, changes, { updatedMs: Date.now() });
+
+    if (job.status === "failed") {
+      this.releaseUnsent(job);
+    }
+    if (job.status === "failed" || job.status === "confirmed") {
+      this.onUnsent.delete(job.id);
+      airdropJobs.inc({ network: this.network.name, status: job.status });
+    }
+  }
+
+  // Recipients are paid in order, so the ones without a hash were never sent
+  private releaseUnsent(job: AirdropJob) {
+    const onUnsent = this.onUnsent.get(job.id);
+    const unsent = job.recipients.slice(job.txHashes.length);
+    if (onUnsent && unsent.length > 0) {
+      this.onUnsent.delete(job.id);
+      onUnsent(unsent);
+    }
+  }
+
+  private async process() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      while (this.queue.length > 0) {
+        const job = this.queue.shift()!;
+        try {
+          await this.sendJob(job);
+        } catch (error) {
+          console.error(`Airdrop job ${job.id} failed:`, error);
+          this.update(job, {
+            status: "failed",
+            error: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  private async checkChain() {
+    if (this.chainChecked || this.network.chainId === undefined) return;
+    const { chainId } = await this.provider.getNetwork();
+    if (chainId !== BigInt(this.network.chainId)) {
+      throw new Error(`RPC is on chain ${chainId}, expected ${this.network.chainId} for ${this.network.label}`);
+    }
+    this.chainChecked = true;
+  }
+
+  private async sendJob(job: AirdropJob) {
+    await this.checkChain();
+    this.update(job, { status: "sending" });
+
+    for (const recipient of job.recipients) {
+      let hash: string;
+      try {
+        hash = await this.sendWithRetry(recipient, job.amount);
+      } catch (error) {
+        if (job.txHashes.length === 0) throw error;
+
+        // Part of the batch is out, it still has to be confirmed. The job
+        // ends up failed either way, the unsent recipients are released now
+        console.error(`Airdrop job ${job.id} failed part way:`, error);
+        this.releaseUnsent(job);
+        this.update(job, {
+          status: "sent",
+          error: `Sent to ${job.txHashes.length} of ${job.recipients.length} recipients: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`,
+        });
+        this.trackConfirmation(job);
+        return;
+      }
+      console.log('Airdrop transaction sent: ', hash);
+      this.update(job, { txHashes: [...job.txHashes, hash] });
+    }
+
+    this.update(job, { status: "sent" });
+    this.trackConfirmation(job);
+  }
+
+  private async sendWithRetry(to: string, value: bigint): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      if (this.nextNonce === null || this.nonceStale) {
+        this.nonceStale = false;
+        this.nextNonce = await this.provider.getTransactionCount(this.wallet.address, "pending");
+      }
+
+      const request = await this.wallet.populateTransaction({ to, value, nonce: this.nextNonce });
+      const signed = await this.wallet.signTransaction(request);
+      const hash = keccak256(signed);
+
+      try {
+        await this.provider.broadcastTransaction(signed);
+        this.nextNonce += 1;
+        return hash;
+      } catch (error) {
+        const kind = classifySendError(error);
+
+        // The node already has this exact tx, or a timed out broadcast
+        // reached it anyway
+        if (
+          kind === "already-known" ||
+          (kind === "timeout" && await this.provider.getTransaction(hash))
+        ) {
+          this.nextNonce += 1;
+          return hash;
+        }
+
+        if (!RETRYABLE.includes(kind) || attempt >= MAX_ATTEMPTS) {
+          throw error;
+        }
+
+        console.warn(`Airdrop send failed (${kind}), retrying:`, to);
+        this.nextNonce = null;
+        await sleep(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1));
+      }
+    }
+  }
+
+  private async trackConfirmation(job: AirdropJob) {
+    try {
+      const receipts = await Promise.all(
+        job.txHashes.map(hash =>
+          this.provider.waitForTransaction(hash, 1, CONFIRM_TIMEOUT_MS)
+        )
+      );
+      const reverted = receipts.some(receipt => !receipt || receipt.status !== 1);
+      if (reverted) {
+        this.update(job, { status: "failed", error: 'Airdrop transaction reverted' });
+      } else {
+        // A partly sent batch keeps the error it was sent with
+        this.update(job, { status: job.error ? "failed" : "confirmed" });
+      }
+    } catch (error) {
+      console.error(`Airdrop job ${job.id} not confirmed:`, error);
+      // Whatever was in flight may have been dropped, start from the node's view
+      this.nonceStale = true;
+      this.update(job, { status: "failed", error: 'Airdrop transaction not confirmed' });
+    }
+  }
+
+  private pruneJobs() {
+    const now = Date.now();
+    this.jobs.forEach((job, id) => {
+      if (now - job.updatedMs > JOB_TTL_MS && job.status !== "queued" && job.status !== "sending") {
+        this.jobs.delete(id);
+      }
+    });
+  }
+}
+
+// Shape returned by the API, with the bigint amount as a decimal string
+export function serializeJob(job: AirdropJob) {
+  return { ...job, amount: job.amount.toString() };
+}
+
+export function airdropQueueFor(network: NetworkProfile) {
+  return AirdropQueue.forNetwork(network);
+}
@@ -0,0 +1,110 @@
+import { JsonRpcClient } from "@/lib/jsonRpc";
+import { SendErrorKind, classifySendError } from "@/lib/nonceManager";
+
+// Server route that forwards raw txs to the private RPC, whose URL stays secret
+export const PRIVATE_RELAY_PATH = "/api/relay";
+export const PRIVATE_ENDPOINT_LABEL = "private";
+
+export type BroadcastEndpoint = {
+  label: string;
+  url: string;
+};
+
+export type EndpointAck = {
+  label: string;
+  // Time from the start of the race until the endpoint answered
+  ackMs: number;
+  error?: SendErrorKind;
+};
+
+export type RaceResult = {
+  // First endpoint to accept the tx, null if none did
+  winner: string | null;
+  acks: EndpointAck[];
+};
+
+type SendRawMethods = {
+  eth_sendRawTransaction: { params: [string]; result: string };
+};
+
+const clients: Map<string, JsonRpcClient<SendRawMethods>> = new Map();
+
+function clientFor(url: string) {
+  let client = clients.get(url);
+  if (!client) {
+    client = new JsonRpcClient<SendRawMethods>(url, {
+      eth_sendRawTransaction: (result): result is string =>
+        typeof result === "string",
+    });
+    clients.set(url, client);
+  }
+  return client;
+}
+
+// Sends a raw tx straight to one endpoint, returning the hash it reports
+export function sendRawTransaction(url: string, signed: string) {
+  return clientFor(url).request("eth_sendRawTransaction", [signed]);
+}
+
+// The public RPC, the private RPC and every gateway. In the browser the
+// private RPC is reached through the relay; null leaves it out
+export function raceEndpoints(
+  publicUrl: string,
+  gatewayUrls: string[],
+  privateUrl: string | null = PRIVATE_RELAY_PATH
+): BroadcastEndpoint[] {
+  const endpoints = [{ label: "public", url: publicUrl }];
+  if (privateUrl) {
+    endpoints.push({ label: PRIVATE_ENDPOINT_LABEL, url: privateUrl });
+  }
+  for (const url of gatewayUrls) {
+    if (url === publicUrl) continue;
+    endpoints.push({ label: url, url });
+  }
+  return endpoints;
+}
+
+/**
+ * Sends the same signed tx to every endpoint at once. `first` resolves as
+ * soon as one endpoint accepts it, or once all have failed, along with the
+ * error of the first failure. `settled` resolves when every endpoint has
+ * answered.
+ */
+export function raceBroadcast(signed: string, endpoints: BroadcastEndpoint[]) {
+  const start = Date.now();
+  const acks: EndpointAck[] = [];
+  let winner: string | null = null;
+  let firstError: unknown;
+  const snapshot = (): RaceResult => ({ winner, acks: [...acks] });
+
+  let resolveFirst: (result: RaceResult & { error?: unknown }) => void;
+  const first = new Promise<RaceResult & { error?: unknown }>((resolve) => {
+    resolveFirst = resolve;
+  });
+
+  const settled = Promise.all(
+    endpoints.map(async (endpoint) => {
+      try {
+        await sendRawTransaction(endpoint.url, signed);
+        acks.push({ label: endpoint.label, ackMs: Date.now() - start });
+        if (winner === null) {
+          winner = endpoint.label;
+          resolveFirst(snapshot());
+        }
+      } catch (error) {
+        firstError ??= error;
+        acks.push({
+          label: endpoint.label,
+          ackMs: Date.now() - start,
+          error: classifySendError(error),
+        });
+      }
+    })
+  ).then(() => {
+    // Resolving again is a no-op when there was a winner
+    resolveFirst({ ...snapshot(), error: firstError });
+    return snapshot();
+  });
+
+  return { first, settled };
+}
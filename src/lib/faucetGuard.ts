@@ -0,0 +1,193 @@
+import { randomBytes } from 'crypto';
+import { getAddress, parseEther, verifyMessage } from 'ethers';
+import { NetworkProfile } from '@/lib/networks';
+
+const CHALLENGE_TTL_MS = 5 * 60 * 1000;
+// Outstanding challenges kept at most, the oldest go first
+const MAX_CHALLENGES = 10_000;
+
+export type FaucetRejection = {
+  error: string;
+  status: number;
+};
+
+type Challenge = {
+  address: string;
+  nonce: string;
+  message: string;
+  expiresAt: number;
+};
+
+type Spend = {
+  timeMs: number;
+  amount: bigint;
+  // The reservation's addresses, to find it again on release
+  addresses: string[];
+};
+
+/**
+ * In-memory abuse protection for the airdrop faucet of one network: address
+ * validation, signed challenges proving control of the address, per-IP and
+ * per-address cooldowns and a spend budget over a sliding window.
+ */
+class FaucetGuard {
+  private static instances: Map<string, FaucetGuard> = new Map();
+  private ipCooldownMs: number;
+  private addressCooldownMs: number;
+  private budget: bigint;
+  private budgetWindowMs: number;
+
+  // Keyed by nonce, a new challenge for an address never replaces another's
+  private challenges: Map<string, Challenge> = new Map();
+  private lastByIp: Map<string, number> = new Map();
+  private lastByAddress: Map<string, number> = new Map();
+  private spends: Spend[] = [];
+
+  private constructor(private network: NetworkProfile) {
+    this.ipCooldownMs = network.faucet.ipCooldownMs;
+    this.addressCooldownMs = network.faucet.addressCooldownMs;
+    this.budget = parseEther(network.faucet.budgetEth);
+    this.budgetWindowMs = network.faucet.budgetWindowMs;
+  }
+
+  public static forNetwork(network: NetworkProfile): FaucetGuard {
+    let guard = FaucetGuard.instances.get(network.name);
+    if (!guard) {
+      guard = new FaucetGuard(network);
+      FaucetGuard.instances.set(network.name, guard);
+    }
+    return guard;
+  }
+
+  // Returns the checksummed address, or null if it isn't a valid address
+  public normalizeAddress(address: unknown): string | null {
+    if (typeof address !== "string" || !/^0x[0-9a-fA-F]{40}$/.test(address)) {
+      return null;
+    }
+    try {
+      // Throws on a mixed-case address with a bad checksum
+      return getAddress(address);
+    } catch {
+      return null;
+    }
+  }
+
+  public issueChallenge(address: string): Challenge {
+    this.pruneChallenges();
+
+    const nonce = randomBytes(16).toString("hex");
+    const challenge = {
+      address,
+      nonce,
+      message: `Break my frags airdrop on ${this.network.label} for ${address}\nNonce: ${nonce}`,
+      expiresAt: Date.now() + CHALLENGE_TTL_MS,
+    };
+    this.challenges.set(nonce, challenge);
+    if (this.challenges.size > MAX_CHALLENGES) {
+      this.challenges.delete(this.challenges.keys().next().value!);
+    }
+    return challenge;
+  }
+
+  // Challenges are single use, whether or not the signature checks out
+  public verifyChallenge(
+    address: string,
+    nonce: unknown,
+    signature: unknown
+  ): FaucetRejection | null {
+    const challenge = typeof nonce === "string" ? this.challenges.get(nonce) : undefined;
+    if (challenge) {
+      this.challenges.delete(challenge.nonce);
+    }
+
+    if (!challenge || challenge.address !== address || challenge.expiresAt < Date.now()) {
+      return { error: 'Missing or expired challenge', status: 401 };
+    }
+    if (typeof signature !== "string") {
+      return { error: 'Signature is required', status: 401 };
+    }
+
+    try {
+      if (verifyMessage(challenge.message, signature) !== address) {
+        return { error: 'Signature does not match address', status: 401 };
+      }
+    } catch {
+      return { error: 'Invalid signature', status: 401 };
+    }
+    return null;
+  }
+
+  // Checks cooldowns and budget, and reserves the spend if allowed. A batch
+  // of addresses from one request counts once against the IP cooldown
+  public reserve(ip: string, addresses: string[], amount: bigint): FaucetRejection | null {
+    const now = Date.now();
+    const total = amount * BigInt(addresses.length);
+    this.pruneCooldowns(now);
+
+    const lastIp = this.lastByIp.get(ip);
+    if (lastIp !== undefined && now - lastIp < this.ipCooldownMs) {
+      return { error: 'Too many airdrops from this IP, try again later', status: 429 };
+    }
+
+    for (const address of addresses) {
+      const lastAddress = this.lastByAddress.get(address);
+      if (lastAddress !== undefined && now - lastAddress < this.addressCooldownMs) {
+        return { error: `${address} was funded recently`, status: 429 };
+      }
+    }
+
+    this.spends = this.spends.filter(spend => now - spend.timeMs < this.budgetWindowMs);
+    const spent = this.spends.reduce((a, b) => a + b.amount, BigInt(0));
+    if (spent + total > this.budget) {
+      return { error: 'Airdrop budget exhausted, try again later', status: 503 };
+    }
+
+    this.lastByIp.set(ip, now);
+    addresses.forEach(address => this.lastByAddress.set(address, now));
+    this.spends.push({ timeMs: now, amount: total, addresses });
+    return null;
+  }
+
+  // Gives back the part of a reservation the airdrop never sent: the budget
+  // and cooldowns of the unsent addresses, and the IP's cooldown if nothing
+  // was sent at all. `addresses` is the array the reservation was made with
+  public release(ip: string, addresses: string[], unsent: string[], amount: bigint) {
+    if (unsent.length === addresses.length) {
+      this.lastByIp.delete(ip);
+    }
+    unsent.forEach(address => this.lastByAddress.delete(address));
+
+    const index = this.spends.findIndex(spend => spend.addresses === addresses);
+    if (index === -1) return;
+    this.spends[index].amount -= amount * BigInt(unsent.length);
+    if (this.spends[index].amount <= BigInt(0)) {
+      this.spends.splice(index, 1);
+    }
+  }
+
+  private pruneCooldowns(now: number) {
+    this.lastByIp.forEach((timeMs, ip) => {
+      if (now - timeMs >= this.ipCooldownMs) {
+        this.lastByIp.delete(ip);
+      }
+    });
+    this.lastByAddress.forEach((timeMs, address) => {
+      if (now - timeMs >= this.addressCooldownMs) {
+        this.lastByAddress.delete(address);
+      }
+    });
+  }
+
+  private pruneChallenges() {
+    const now = Date.now();
+    this.challenges.forEach((challenge, nonce) => {
+      if (challenge.expiresAt < now) {
+        this.challenges.delete(nonce);
+      }
+    });
+  }
+}
+
+export function faucetGuardFor(network: NetworkProfile) {
+  return FaucetGuard.forNetwork(network);
+}
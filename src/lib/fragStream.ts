@@ -0,0 +1,94 @@
+import { keccak256 } from "ethers";
+
+// Subscription name used by the gateway for streaming block fragments
+const FRAG_SUBSCRIPTION = "frags";
+const RECONNECT_DELAY_MS = 2000;
+
+export type Frag = {
+  blockNumber: number;
+  seq: number;
+  isLast: boolean;
+  txHashes: string[];
+};
+
+type RawFrag = {
+  blockNumber: number | string;
+  seq: number | string;
+  isLast?: boolean;
+  // Either EIP-2718 encoded transactions or full transaction objects
+  txs: (string | { hash: string })[];
+};
+
+export function parseFrag(raw: RawFrag): Frag {
+  return {
+    blockNumber: Number(raw.blockNumber),
+    seq: Number(raw.seq),
+    isLast: Boolean(raw.isLast),
+    txHashes: raw.txs.map((tx) =>
+      typeof tx === "string" ? keccak256(tx) : tx.hash
+    ),
+  };
+}
+
+export class FragStream {
+  private socket: WebSocket | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private stopped = false;
+
+  constructor(
+    private url: string,
+    private onFrag: (frag: Frag, receivedMs: number) => void
+  ) {}
+
+  public start() {
+    this.stopped = false;
+    this.connect();
+  }
+
+  public stop() {
+    this.stopped = true;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.socket?.close();
+    this.socket = null;
+  }
+
+  private connect() {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      socket.send(
+        JSON.stringify({
+          jsonrpc: "2.0",
+          method: "eth_subscribe",
+          params: [FRAG_SUBSCRIPTION],
+          id: 1,
+        })
+      );
+    };
+
+    socket.onmessage = (event) => {
+      // Take the timestamp before parsing so decoding doesn't add latency
+      const receivedMs = Date.now();
+      try {
+        const message = JSON.parse(event.data);
+        if (message.method !== "eth_subscription") return;
+        this.onFrag(parseFrag(message.params.result), receivedMs);
+      } catch (error) {
+        console.error("Failed to parse frag:", error);
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.stopped) return;
+      this.reconnectTimeout = setTimeout(() => this.connect(), RECONNECT_DELAY_MS);
+    };
+
+    socket.onerror = (error) => {
+      console.error("Frag stream error:", error);
+    };
+  }
+}
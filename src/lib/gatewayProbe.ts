@@ -0,0 +1,124 @@
+import { Gateway, ProbeErrorKind } from '@/types';
+
+const PROBE_TIMEOUT_MS = 2000;
+// Probes the error rate is computed over, a minute at one probe per second
+const RECENT_PROBES = 60;
+// Successful probes the ping average is computed over
+const PING_WINDOW = 10;
+
+export type ProbeResult =
+  | { ok: true; latencyMs: number; blockNumber: number }
+  | { ok: false; latencyMs: number; error: ProbeErrorKind; message: string };
+
+/**
+ * Asks the endpoint for its head with `eth_blockNumber`. Anything but a
+ * well-formed JSON-RPC result counts as a failure, so a gateway that answers
+ * with an error page or a 405 is not mistaken for a healthy one.
+ */
+export async function probeRpc(url: string): Promise<ProbeResult> {
+  const start = Date.now();
+  const fail = (error: ProbeErrorKind, message: string): ProbeResult => ({
+    ok: false,
+    latencyMs: Date.now() - start,
+    error,
+    message,
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ jsonrpc: "2.0", method: "eth_blockNumber", params: [], id: 1 }),
+      signal: AbortSignal.timeout(PROBE_TIMEOUT_MS),
+    });
+  } catch (error) {
+    const name = (error as Error)?.name;
+    return name === "TimeoutError" || name === "AbortError"
+      ? fail("timeout", `No response within ${PROBE_TIMEOUT_MS}ms`)
+      : fail("network", (error as Error)?.message ?? String(error));
+  }
+
+  if (!response.ok) {
+    return fail("http", `HTTP ${response.status}`);
+  }
+
+  let body: { result?: unknown; error?: { code?: number; message?: string } };
+  try {
+    body = await response.json();
+  } catch {
+    return fail("invalid-response", 'Response is not JSON');
+  }
+
+  if (body.error) {
+    return fail("rpc", body.error.message ?? `RPC error ${body.error.code}`);
+  }
+  if (typeof body.result !== "string" || !/^0x[0-9a-fA-F]+$/.test(body.result)) {
+    return fail("invalid-response", 'Result is not a block number');
+  }
+
+  return { ok: true, latencyMs: Date.now() - start, blockNumber: parseInt(body.result, 16) };
+}
+
+export type GatewayHealthStats = Pick<
+  Gateway,
+  "ping" | "uptime" | "errorRate" | "syncLag" | "lastError"
+>;
+
+// Rolling health of one gateway, built from its probe results
+export class GatewayHealth {
+  private pings: number[] = [];
+  private recent: boolean[] = [];
+  private probes = 0;
+  private successes = 0;
+  private syncLag?: number;
+  private lastError?: ProbeErrorKind;
+
+  // Records a probe and returns the sync lag it implies, if known
+  record(result: ProbeResult, sequencerHead: number | null): number | undefined {
+    this.probes++;
+    this.recent.push(result.ok);
+    if (this.recent.length > RECENT_PROBES) {
+      this.recent.shift();
+    }
+
+    if (!result.ok) {
+      this.lastError = result.error;
+      return undefined;
+    }
+
+    this.successes++;
+    this.lastError = undefined;
+    this.pings.push(result.latencyMs);
+    if (this.pings.length > PING_WINDOW) {
+      this.pings.shift();
+    }
+    // The sequencer head is sampled separately, so it can trail a fast gateway
+    this.syncLag = sequencerHead === null
+      ? undefined
+      : Math.max(0, sequencerHead - result.blockNumber);
+    return this.syncLag;
+  }
+
+  // Probes since the gateway was first seen, and how many of them succeeded
+  counts(): { probes: number; successes: number } {
+    return { probes: this.probes, successes: this.successes };
+  }
+
+  stats(): GatewayHealthStats {
+    const failedRecent = this.recent.filter(ok => !ok).length;
+    return {
+      ping: this.pings.length > 0
+        ? Math.round(this.pings.reduce((a, b) => a + b, 0) / this.pings.length)
+        : undefined,
+      uptime: this.probes > 0
+        ? Math.round((this.successes / this.probes) * 1000) / 10
+        : undefined,
+      errorRate: this.recent.length > 0
+        ? Math.round((failedRecent / this.recent.length) * 1000) / 10
+        : undefined,
+      syncLag: this.syncLag,
+      lastError: this.lastError,
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import { FutureGateway } from "@/types";
+
+// Blocks on either side of a leader change that count as the handoff window
+export const HANDOFF_WINDOW_BLOCKS = 1;
+
+// How many blocks ahead of a rotation leader-aware routing moves to the next leader
+export const LEADER_SWITCH_BLOCKS = 1;
+
+// Don't walk the schedule further than a plausible slot length
+const MAX_SLOT_SCAN = 256;
+
+export type HandoffPosition = {
+  // Blocks of the current leader left after this one, 0 on its last block
+  blocksBefore: number | null;
+  // Blocks of the current leader before this one, 0 on its first block
+  blocksAfter: number | null;
+};
+
+function countSameLeader(
+  schedule: Map<number, FutureGateway>,
+  blockNumber: number,
+  url: string,
+  step: 1 | -1
+): number | null {
+  for (let i = 0; i < MAX_SLOT_SCAN; i++) {
+    const gw = schedule.get(blockNumber + step * (i + 1));
+    // Unknown schedule means we can't tell where the boundary is
+    if (!gw) return null;
+    if (gw.url !== url) return i;
+  }
+  return null;
+}
+
+export function handoffPosition(
+  schedule: Map<number, FutureGateway>,
+  blockNumber: number
+): HandoffPosition | undefined {
+  const leader = schedule.get(blockNumber);
+  if (!leader) return undefined;
+
+  return {
+    blocksBefore: countSameLeader(schedule, blockNumber, leader.url, 1),
+    blocksAfter: countSameLeader(schedule, blockNumber, leader.url, -1),
+  };
+}
+
+export function isHandoffWindow(position: HandoffPosition) {
+  const { blocksBefore, blocksAfter } = position;
+  return (
+    (blocksBefore !== null && blocksBefore < HANDOFF_WINDOW_BLOCKS) ||
+    (blocksAfter !== null && blocksAfter < HANDOFF_WINDOW_BLOCKS)
+  );
+}
+
+function blocks(n: number) {
+  return n === 1 ? "1 block" : `${n} blocks`;
+}
+
+// Describes the position relative to the nearest known rotation boundary
+export function formatHandoffPosition(position: HandoffPosition) {
+  const { blocksBefore, blocksAfter } = position;
+
+  if (
+    blocksAfter !== null &&
+    (blocksBefore === null || blocksAfter <= blocksBefore)
+  ) {
+    return blocksAfter === 0
+      ? "first block of new leader"
+      : `${blocks(blocksAfter)} after handoff`;
+  }
+
+  if (blocksBefore === null) return "unknown";
+  return blocksBefore === 0
+    ? "last block before handoff"
+    : `${blocks(blocksBefore)} before handoff`;
+}
+
+// The gateway a tx aimed at blockNumber should go to. Looking a little ahead
+// means the next leader already gets txs sent on the outgoing leader's last
+// block, which would likely miss it anyway
+export function routeToLeader(
+  schedule: Map<number, FutureGateway>,
+  blockNumber: number
+): FutureGateway | undefined {
+  return (
+    schedule.get(blockNumber + LEADER_SWITCH_BLOCKS) ?? schedule.get(blockNumber)
+  );
+}
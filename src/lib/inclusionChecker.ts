@@ -0,0 +1,135 @@
+import { JsonRpcProvider } from "ethers";
+
+// Blocks a receipt has to stay put for before it's trusted
+export const CONFIRMATION_DEPTH =
+  Number(process.env.NEXT_PUBLIC_CONFIRMATION_DEPTH) || 12;
+// A single missing receipt is often just a lagging node behind a load balancer
+const MISSES_BEFORE_DROPPED = 2;
+
+// Where a receipt placed the tx
+export type Inclusion = {
+  hash: string;
+  blockNumber: number;
+  blockHash: string;
+  index: number;
+};
+
+export type InclusionBreak = {
+  kind: "reorged" | "dropped";
+  // What changed, e.g. "block 120 -> 121"
+  reason: string;
+  detectedMs: number;
+};
+
+type Watched = Inclusion & { misses: number };
+
+function describeChange(before: Inclusion, after: Inclusion) {
+  const changes: string[] = [];
+  if (after.blockNumber !== before.blockNumber) {
+    changes.push(`block ${before.blockNumber} -> ${after.blockNumber}`);
+  } else if (after.blockHash !== before.blockHash) {
+    changes.push(
+      `block hash ${before.blockHash.slice(0, 10)} -> ${after.blockHash.slice(0, 10)}`
+    );
+  }
+  if (after.index !== before.index) {
+    changes.push(`index ${before.index} -> ${after.index}`);
+  }
+  return changes.join(", ");
+}
+
+/**
+ * Re-checks the receipts of confirmed txs on every new head until they are
+ * CONFIRMATION_DEPTH blocks deep. A receipt that moves to another block or
+ * position, or whose block gets replaced, means the preconfirmation broke.
+ * Blocks are compared by hash first, so receipts are only fetched again for
+ * txs whose block actually changed.
+ */
+export class InclusionChecker {
+  private watched: Map<string, Watched> = new Map();
+
+  constructor(private provider: JsonRpcProvider) {}
+
+  public get size() {
+    return this.watched.size;
+  }
+
+  public watch(key: string, inclusion: Inclusion) {
+    this.watched.set(key, { ...inclusion, misses: 0 });
+  }
+
+  // Returns the txs found broken, which are no longer watched afterwards
+  public async check(headBlock: number): Promise<Map<string, InclusionBreak>> {
+    const byBlock: Map<number, [string, Watched][]> = new Map();
+    for (const entry of this.watched.entries()) {
+      const group = byBlock.get(entry[1].blockNumber) ?? [];
+      group.push(entry);
+      byBlock.set(entry[1].blockNumber, group);
+    }
+
+    const blockNumbers = Array.from(byBlock.keys());
+    const blocks = await Promise.all(
+      blockNumbers.map((n) => this.provider.getBlock(n))
+    );
+
+    const changed: [string, Watched][] = [];
+    blockNumbers.forEach((n, i) => {
+      const group = byBlock.get(n)!;
+      const block = blocks[i];
+      if (block && block.hash === group[0][1].blockHash) {
+        for (const [key, watched] of group) {
+          watched.misses = 0;
+          if (headBlock - n >= CONFIRMATION_DEPTH) this.watched.delete(key);
+        }
+        return;
+      }
+      changed.push(...group);
+    });
+
+    const receipts = await Promise.all(
+      changed.map(([, watched]) =>
+        this.provider.getTransactionReceipt(watched.hash)
+      )
+    );
+
+    const breaks: Map<string, InclusionBreak> = new Map();
+    changed.forEach(([key, watched], i) => {
+      const rcpt = receipts[i];
+      const detectedMs = Date.now();
+
+      if (!rcpt) {
+        watched.misses++;
+        if (watched.misses >= MISSES_BEFORE_DROPPED) {
+          breaks.set(key, {
+            kind: "dropped",
+            reason: `receipt gone from block ${watched.blockNumber}`,
+            detectedMs,
+          });
+        }
+        return;
+      }
+
+      const reason = describeChange(watched, {
+        hash: rcpt.hash,
+        blockNumber: rcpt.blockNumber,
+        blockHash: rcpt.blockHash,
+        index: rcpt.index,
+      });
+      if (reason) {
+        breaks.set(key, { kind: "reorged", reason, detectedMs });
+      } else {
+        // Block lookup and receipt disagree, a lagging node; try again next head
+        watched.misses = 0;
+      }
+    });
+
+    for (const key of breaks.keys()) {
+      this.watched.delete(key);
+    }
+    return breaks;
+  }
+
+  public clear() {
+    this.watched.clear();
+  }
+}
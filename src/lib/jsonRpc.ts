@@ -0,0 +1,109 @@
+const DEFAULT_TIMEOUT_MS = 5000;
+
+// Describes each method a client can call: its params and the result it returns
+export type RpcMethods = Record<string, { params: unknown[]; result: unknown }>;
+
+// Runtime checks that a result has the shape the method promises
+export type RpcValidators<M extends RpcMethods> = {
+  [K in keyof M]: (result: unknown) => result is M[K]["result"];
+};
+
+type RpcResponse = {
+  id?: unknown;
+  result?: unknown;
+  error?: { code?: number; message?: string };
+};
+
+export class JsonRpcError extends Error {
+  constructor(message: string, public code?: number) {
+    super(message);
+    this.name = "JsonRpcError";
+  }
+}
+
+/**
+ * Minimal typed JSON-RPC 2.0 client over HTTP. Every request gets its own
+ * id, so batched responses are matched back to their calls whatever order
+ * the server answers in. Results are validated before they are returned.
+ */
+export class JsonRpcClient<M extends RpcMethods> {
+  private nextId = 1;
+
+  constructor(
+    private url: string,
+    private validators: RpcValidators<M>,
+    private timeoutMs = DEFAULT_TIMEOUT_MS
+  ) {}
+
+  private async post(body: unknown): Promise<unknown> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(body),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new JsonRpcError(`HTTP ${response.status}`);
+    }
+
+    try {
+      return await response.json();
+    } catch {
+      throw new JsonRpcError('Invalid JSON in response');
+    }
+  }
+
+  private unwrap<K extends keyof M & string>(
+    method: K,
+    params: M[K]["params"],
+    response: RpcResponse | undefined
+  ): M[K]["result"] {
+    const call = `${method}(${params.join(", ")})`;
+    if (!response) {
+      throw new JsonRpcError(`${call}: no response`);
+    }
+    if (response.error) {
+      throw new JsonRpcError(
+        `${call} failed: ${response.error.message ?? `code ${response.error.code}`}`,
+        response.error.code
+      );
+    }
+    if (!this.validators[method](response.result)) {
+      throw new JsonRpcError(`${call} returned an unexpected result`);
+    }
+    return response.result;
+  }
+
+  public async request<K extends keyof M & string>(
+    method: K,
+    params: M[K]["params"]
+  ): Promise<M[K]["result"]> {
+    const id = this.nextId++;
+    const response = await this.post({ jsonrpc: "2.0", method, params, id });
+    return this.unwrap(method, params, response as RpcResponse);
+  }
+
+  // Calls the same method once per params entry in a single round trip
+  public async batch<K extends keyof M & string>(
+    method: K,
+    paramsList: M[K]["params"][]
+  ): Promise<M[K]["result"][]> {
+    if (paramsList.length === 0) return [];
+
+    const calls = paramsList.map(params => ({ jsonrpc: "2.0", method, params, id: this.nextId++ }));
+    const response = await this.post(calls);
+
+    // Servers without batch support answer with a single error object,
+    // fall back to one request per call rather than failing outright
+    if (!Array.isArray(response)) {
+      const error = (response as RpcResponse)?.error;
+      console.warn(`Batch of ${method} rejected, sending individually:`, error?.message);
+      return Promise.all(paramsList.map(params => this.request(method, params)));
+    }
+
+    const byId: Map<unknown, RpcResponse> = new Map(
+      (response as RpcResponse[]).map(item => [item?.id, item])
+    );
+    return calls.map((call, i) => this.unwrap(method, paramsList[i], byId.get(call.id)));
+  }
+}
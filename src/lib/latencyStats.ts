@@ -0,0 +1,232 @@
+// Bucket boundaries grow by 2%, so percentiles are within ~1% of the true value
+const BUCKET_GROWTH = 1.02;
+const LOG_GROWTH = Math.log(BUCKET_GROWTH);
+
+export type LatencySummary = {
+  count: number;
+  min: number;
+  max: number;
+  avg: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  p999: number;
+  // Mean absolute difference between consecutive samples
+  jitter: number;
+};
+
+export type LatencyBin = {
+  fromMs: number;
+  toMs: number;
+  count: number;
+};
+
+export type LatencyPoint = {
+  timeMs: number;
+  avg: number;
+  max: number;
+  count: number;
+};
+
+export const EMPTY_SUMMARY: LatencySummary = {
+  count: 0,
+  min: 0,
+  max: 0,
+  avg: 0,
+  p50: 0,
+  p90: 0,
+  p99: 0,
+  p999: 0,
+  jitter: 0,
+};
+
+function bucketOf(ms: number) {
+  return ms < 1 ? 0 : 1 + Math.floor(Math.log(ms) / LOG_GROWTH);
+}
+
+// Geometric middle of the bucket's range
+function bucketValue(bucket: number) {
+  return bucket === 0 ? 0 : Math.pow(BUCKET_GROWTH, bucket - 0.5);
+}
+
+/**
+ * Streaming histogram over log-spaced buckets. Memory only grows with the
+ * spread of latencies seen, not with the number of samples, so it can hold
+ * the full history of a long run.
+ */
+export class LatencyHistogram {
+  private counts: Map<number, number> = new Map();
+  private count = 0;
+  private sum = 0;
+  private min = Infinity;
+  private max = -Infinity;
+  private jitterSum = 0;
+  private last: number | null = null;
+
+  record(ms: number) {
+    const bucket = bucketOf(ms);
+    this.counts.set(bucket, (this.counts.get(bucket) ?? 0) + 1);
+    this.count++;
+    this.sum += ms;
+    this.min = Math.min(this.min, ms);
+    this.max = Math.max(this.max, ms);
+    if (this.last !== null) {
+      this.jitterSum += Math.abs(ms - this.last);
+    }
+    this.last = ms;
+  }
+
+  get size() {
+    return this.count;
+  }
+
+  percentile(p: number) {
+    if (this.count === 0) return 0;
+
+    const rank = Math.max(1, Math.ceil(this.count * p));
+    let seen = 0;
+    for (const bucket of [...this.counts.keys()].sort((a, b) => a - b)) {
+      seen += this.counts.get(bucket)!;
+      if (seen >= rank) {
+        // Bucket values are estimates, never report outside what was seen
+        const value = Math.min(this.max, Math.max(this.min, bucketValue(bucket)));
+        return Math.round(value);
+      }
+    }
+    return this.max;
+  }
+
+  summary(): LatencySummary {
+    if (this.count === 0) return EMPTY_SUMMARY;
+
+    return {
+      count: this.count,
+      min: this.min,
+      max: this.max,
+      avg: Math.round(this.sum / this.count),
+      p50: this.percentile(0.5),
+      p90: this.percentile(0.9),
+      p99: this.percentile(0.99),
+      p999: this.percentile(0.999),
+      jitter:
+        this.count > 1 ? Math.round(this.jitterSum / (this.count - 1)) : 0,
+    };
+  }
+
+  // Regroups the buckets into a fixed number of log-spaced bins for charting
+  bins(binCount: number): LatencyBin[] {
+    if (this.count === 0) return [];
+
+    const lo = Math.max(1, this.min);
+    const hi = Math.max(lo + 1, this.max);
+    const edge = (i: number) => lo * Math.pow(hi / lo, i / binCount);
+    const bins = Array.from({ length: binCount }, (_, i) => ({
+      fromMs: Math.round(edge(i)),
+      toMs: Math.round(edge(i + 1)),
+      count: 0,
+    }));
+
+    this.counts.forEach((count, bucket) => {
+      const value = Math.min(hi, Math.max(lo, bucketValue(bucket)));
+      const i = Math.floor((Math.log(value / lo) / Math.log(hi / lo)) * binCount);
+      bins[Math.min(binCount - 1, Math.max(0, i))].count += count;
+    });
+    return bins;
+  }
+}
+
+type SeriesBucket = {
+  count: number;
+  sum: number;
+  max: number;
+};
+
+/**
+ * Latency over time with a bounded number of points. Starts with one point
+ * per second and halves the resolution whenever the run outgrows it.
+ */
+export class LatencySeries {
+  private startMs: number | null = null;
+  private buckets: (SeriesBucket | undefined)[] = [];
+
+  constructor(private maxPoints = 120, private widthMs = 1000) {}
+
+  record(timeMs: number, ms: number) {
+    this.startMs ??= timeMs;
+
+    let index = Math.max(0, Math.floor((timeMs - this.startMs) / this.widthMs));
+    while (index >= this.maxPoints) {
+      this.compact();
+      index = Math.floor((timeMs - this.startMs) / this.widthMs);
+    }
+
+    const bucket = (this.buckets[index] ??= { count: 0, sum: 0, max: 0 });
+    bucket.count++;
+    bucket.sum += ms;
+    bucket.max = Math.max(bucket.max, ms);
+  }
+
+  private compact() {
+    const merged: (SeriesBucket | undefined)[] = [];
+    this.buckets.forEach((bucket, i) => {
+      if (!bucket) return;
+      const target = (merged[Math.floor(i / 2)] ??= { count: 0, sum: 0, max: 0 });
+      target.count += bucket.count;
+      target.sum += bucket.sum;
+      target.max = Math.max(target.max, bucket.max);
+    });
+    this.buckets = merged;
+    this.widthMs *= 2;
+  }
+
+  points(): LatencyPoint[] {
+    const points: LatencyPoint[] = [];
+    this.buckets.forEach((bucket, i) => {
+      if (!bucket) return;
+      points.push({
+        timeMs: this.startMs! + i * this.widthMs,
+        avg: Math.round(bucket.sum / bucket.count),
+        max: bucket.max,
+        count: bucket.count,
+      });
+    });
+    return points;
+  }
+}
+
+export type LatencySnapshot = {
+  summary: LatencySummary;
+  bins: LatencyBin[];
+  points: LatencyPoint[];
+};
+
+export const EMPTY_SNAPSHOT: LatencySnapshot = {
+  summary: EMPTY_SUMMARY,
+  bins: [],
+  points: [],
+};
+
+const HISTOGRAM_BINS = 30;
+
+// Full-run distribution and time series for one kind of latency
+export class LatencyRecorder {
+  private histogram = new LatencyHistogram();
+  private series = new LatencySeries();
+
+  record(timeMs: number, ms: number) {
+    this.histogram.record(ms);
+    this.series.record(timeMs, ms);
+  }
+
+  get size() {
+    return this.histogram.size;
+  }
+
+  snapshot(): LatencySnapshot {
+    return {
+      summary: this.histogram.summary(),
+      bins: this.histogram.bins(HISTOGRAM_BINS),
+      points: this.series.points(),
+    };
+  }
+}
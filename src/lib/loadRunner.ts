@@ -0,0 +1,289 @@
+import { JsonRpcProvider, Wallet } from "ethers";
+import { Frag, FragStream } from "@/lib/fragStream";
+import { LoadProfile, LoadScheduler } from "@/lib/loadSchedule";
+import {
+  LOOKAHEAD_BLOCKS,
+  RegistryClient,
+  createRegistryClient,
+  fetchLookahead,
+} from "@/lib/registryClient";
+import { RunRecorder, RunReport, runTxStatus } from "@/lib/runReport";
+import { RoutingMode } from "@/lib/txSender";
+import { calculateStats } from "@/lib/txStats";
+import { TxTracker } from "@/lib/txTracker";
+import {
+  DEFAULT_TEMPLATE,
+  TxTemplate,
+  fetchFees,
+  prepareTemplate,
+} from "@/lib/txTemplate";
+
+// Same cadences as the UI, so headless numbers compare with browser ones
+const HEAD_POLL_INTERVAL_MS = 250;
+const REGISTRY_POLL_INTERVAL_MS = 5000;
+const FEE_REFRESH_INTERVAL_MS = 10000;
+const NONCE_CHECK_INTERVAL_MS = 5000;
+const PROGRESS_INTERVAL_MS = 5000;
+const DEFAULT_SETTLE_MS = 30_000;
+
+export type LoadRunnerOptions = {
+  // Network profile name, recorded in the report
+  network?: string;
+  rpcUrl: string;
+  // The run is refused when the RPC serves another chain
+  chainId?: number;
+  // Registry JSON-RPC, for the leader schedule; without it txs aren't
+  // attributed to gateways and leader routing falls back to the RPC
+  registryUrl?: string;
+  // Frag stream, for preconf latency; needs a Node with global WebSocket
+  fragStreamUrl?: string;
+  // Private RPC raced in race routing, left out when unset
+  privateUrl?: string;
+  // Funded keys to send from, round-robin
+  privateKeys: string[];
+  template?: TxTemplate;
+  routing?: RoutingMode;
+  profile: LoadProfile;
+  // How long to keep tracking txs once the load has finished
+  settleMs?: number;
+  // Called every few seconds with the stats the dashboard shows
+  onProgress?: (stats: ReturnType<typeof calculateStats>) => void;
+};
+
+export type LoadThresholds = {
+  maxP50PreconfMs?: number;
+  maxP99PreconfMs?: number;
+  maxP50InclusionMs?: number;
+  maxP99InclusionMs?: number;
+  // Percent of txs that didn't end up confirmed
+  maxFailureRate?: number;
+};
+
+export type LoadTestResult = {
+  passed: boolean;
+  breaches: string[];
+  thresholds: LoadThresholds;
+  profile: LoadProfile;
+  routing: RoutingMode;
+  failureRate: number;
+  report: RunReport;
+};
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Failed, reorged, dropped and never-included txs, as a percentage
+export function failureRate(report: RunReport) {
+  if (report.txs.length === 0) return 0;
+  const failed = report.txs.filter(
+    (tx) => runTxStatus(tx) !== "confirmed"
+  ).length;
+  return Math.round((failed / report.txs.length) * 1000) / 10;
+}
+
+// Returns a message per breached threshold, empty when the run passed
+export function checkThresholds(
+  report: RunReport,
+  thresholds: LoadThresholds
+): string[] {
+  if (report.txs.length === 0) return ["No transactions were sent"];
+
+  const breaches: string[] = [];
+  const { preconf, inclusion } = report.totals;
+  const checks: [string, number | undefined, number, number][] = [
+    ["preconf p50", thresholds.maxP50PreconfMs, preconf.summary.p50, preconf.summary.count],
+    ["preconf p99", thresholds.maxP99PreconfMs, preconf.summary.p99, preconf.summary.count],
+    ["inclusion p50", thresholds.maxP50InclusionMs, inclusion.summary.p50, inclusion.summary.count],
+    ["inclusion p99", thresholds.maxP99InclusionMs, inclusion.summary.p99, inclusion.summary.count],
+  ];
+  for (const [label, max, value, count] of checks) {
+    if (max === undefined) continue;
+    if (count === 0) {
+      breaches.push(`${label}: no samples`);
+    } else if (value > max) {
+      breaches.push(`${label} ${value}ms exceeds ${max}ms`);
+    }
+  }
+
+  const rate = failureRate(report);
+  if (thresholds.maxFailureRate !== undefined && rate > thresholds.maxFailureRate) {
+    breaches.push(`failure rate ${rate}% exceeds ${thresholds.maxFailureRate}%`);
+  }
+  return breaches;
+}
+
+/**
+ * Runs a load test outside the browser: sends txs on a load profile through
+ * the same tracker the UI uses, so gaps are filled and stuck nonces replaced
+ * just the same, and returns the run report the UI produces.
+ */
+export class LoadRunner {
+  private provider: JsonRpcProvider;
+  private wallets: Wallet[];
+  private template: TxTemplate;
+  private routing: RoutingMode;
+  private tracker: TxTracker;
+
+  private head = 0;
+  private polling = false;
+  private nextWallet = 0;
+
+  constructor(private options: LoadRunnerOptions) {
+    if (options.privateKeys.length === 0) {
+      throw new Error("At least one private key is needed");
+    }
+    if (options.profile.durationS <= 0) {
+      throw new Error("Headless runs need a duration");
+    }
+    this.provider = new JsonRpcProvider(options.rpcUrl);
+    this.wallets = options.privateKeys.map((key) => new Wallet(key, this.provider));
+    this.template = options.template ?? DEFAULT_TEMPLATE;
+    this.routing = options.routing ?? "rpc";
+    this.tracker = new TxTracker(this.provider);
+  }
+
+  public async run(): Promise<RunReport> {
+    const network = await this.provider.getNetwork();
+    const expected = this.options.chainId;
+    if (expected !== undefined && network.chainId !== BigInt(expected)) {
+      throw new Error(`RPC serves chain ${network.chainId}, expected ${expected}`);
+    }
+    this.head = await this.provider.getBlockNumber();
+    this.tracker.onHead(this.head);
+    await Promise.all(this.wallets.map((w) => this.tracker.initWallet(w.address)));
+    this.tracker.settings = {
+      chainId: network.chainId,
+      template: this.template,
+      prepared: await prepareTemplate(
+        this.template,
+        this.provider,
+        this.wallets[0].address
+      ),
+      fees: await fetchFees(this.template, this.provider),
+      routing: this.routing,
+      privateUrl: this.options.privateUrl ?? null,
+    };
+
+    const registry = this.options.registryUrl
+      ? createRegistryClient(this.options.registryUrl)
+      : null;
+    const pollRegistry = async () => {
+      if (!registry) return;
+      try {
+        await this.updateSchedule(registry);
+      } catch (error) {
+        console.warn("Registry poll failed:", error);
+      }
+    };
+    await pollRegistry();
+
+    const timers = [
+      setInterval(() => this.pollHead(), HEAD_POLL_INTERVAL_MS),
+      setInterval(pollRegistry, REGISTRY_POLL_INTERVAL_MS),
+      setInterval(() => this.tracker.checkNonces(this.wallets), NONCE_CHECK_INTERVAL_MS),
+    ];
+    if (this.template.gasSource === "network") {
+      timers.push(setInterval(() => this.refreshFees(), FEE_REFRESH_INTERVAL_MS));
+    }
+    const { onProgress } = this.options;
+    if (onProgress) {
+      timers.push(setInterval(() => onProgress(this.tracker.stats()), PROGRESS_INTERVAL_MS));
+    }
+    const frags = this.startFragStream();
+
+    try {
+      const recorder = new RunRecorder();
+      this.tracker.recorder = recorder;
+      await new Promise<void>((resolve, reject) => {
+        const scheduler = new LoadScheduler(
+          this.options.profile,
+          () => {
+            const w = this.wallets[this.nextWallet++ % this.wallets.length];
+            this.tracker.send(w).catch((error) => {
+              scheduler.stop();
+              reject(error);
+            });
+            return 1;
+          },
+          () => this.tracker.inFlight,
+          resolve
+        );
+        scheduler.start();
+      });
+      const endedMs = Date.now();
+      await this.settle(this.options.settleMs ?? DEFAULT_SETTLE_MS);
+
+      return recorder.report(
+        {
+          network: this.options.network,
+          rpcUrl: this.options.rpcUrl,
+          chainId: network.chainId.toString(),
+          template: this.template,
+          sendMode: "round-robin",
+          walletCount: this.wallets.length,
+        },
+        endedMs
+      );
+    } finally {
+      timers.forEach(clearInterval);
+      frags?.stop();
+      this.provider.destroy();
+    }
+  }
+
+  // Waits for outstanding receipts and re-checks, up to `timeoutMs`
+  private async settle(timeoutMs: number) {
+    const deadline = Date.now() + timeoutMs;
+    while (Date.now() < deadline) {
+      if (this.tracker.outstanding === 0) return;
+      await sleep(HEAD_POLL_INTERVAL_MS);
+    }
+  }
+
+  private async pollHead() {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      const head = await this.provider.getBlockNumber();
+      if (head === this.head) return;
+      this.head = head;
+      this.tracker.onHead(head);
+    } catch (error) {
+      console.error("Failed to poll head:", error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async refreshFees() {
+    try {
+      const fees = await fetchFees(this.template, this.provider);
+      this.tracker.settings = { ...this.tracker.settings!, fees };
+    } catch (error) {
+      console.error("Failed to fetch fees:", error);
+    }
+  }
+
+  private async updateSchedule(registry: RegistryClient) {
+    const [registered, lookahead] = await Promise.all([
+      registry.request("registry_registeredGateways", []),
+      fetchLookahead(registry, LOOKAHEAD_BLOCKS),
+    ]);
+    this.tracker.applySchedule(registered.map(([url]) => url), lookahead);
+  }
+
+  private startFragStream() {
+    const url = this.options.fragStreamUrl;
+    if (!url) return null;
+    if (typeof WebSocket === "undefined") {
+      console.warn("No WebSocket in this Node version, preconf latency won't be measured");
+      return null;
+    }
+
+    const stream = new FragStream(url, (frag: Frag, receivedMs: number) =>
+      this.tracker.handleFrag(frag, receivedMs)
+    );
+    stream.start();
+    return stream;
+  }
+}
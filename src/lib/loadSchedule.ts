@@ -0,0 +1,274 @@
+export type LoadProfileKind = "constant" | "ramp" | "step" | "spike";
+
+export type LoadProfile = {
+  kind: LoadProfileKind;
+  targetTps: number;
+  // 0 runs until stopped
+  durationS: number;
+  // ramp: time to climb from 0 to the target, and to fall back at the end
+  rampUpS: number;
+  rampDownS: number;
+  // step: the target is reached in `steps` equal increments of `stepS` each
+  steps: number;
+  stepS: number;
+  // spike: the base target is replaced by `spikeTps` for `spikeS` seconds
+  spikeTps: number;
+  spikeAtS: number;
+  spikeS: number;
+  // 0 means no cap on txs waiting for a receipt
+  maxInFlight: number;
+};
+
+export const DEFAULT_LOAD_PROFILE: LoadProfile = {
+  kind: "constant",
+  targetTps: 5,
+  durationS: 0,
+  rampUpS: 30,
+  rampDownS: 30,
+  steps: 5,
+  stepS: 30,
+  spikeTps: 50,
+  spikeAtS: 30,
+  spikeS: 5,
+  maxInFlight: 0,
+};
+
+export const LOAD_PROFILE_LABELS: Record<LoadProfileKind, string> = {
+  constant: "Constant",
+  ramp: "Ramp up / down",
+  step: "Step",
+  spike: "Spike",
+};
+
+// Longest wait between ticks, so rate changes are picked up promptly
+const MAX_TICK_MS = 250;
+// Sends owed after a stall (e.g. a throttled background tab) beyond this are
+// skipped rather than fired in one burst
+const MAX_CATCH_UP_TXS = 50;
+const ACHIEVED_WINDOW_MS = 5000;
+
+// [seconds, tps] breakpoints; the rate is linear between them, a repeated
+// time is a jump, and the last rate holds from the last breakpoint on
+type RatePoint = [number, number];
+
+function ratePoints(profile: LoadProfile): RatePoint[] {
+  const { targetTps: tps, durationS } = profile;
+  switch (profile.kind) {
+    case "constant":
+      return [[0, tps]];
+    case "ramp": {
+      const points: RatePoint[] = [
+        [0, 0],
+        [profile.rampUpS, tps],
+      ];
+      if (durationS > 0) {
+        points.push([durationS - profile.rampDownS, tps], [durationS, 0]);
+      }
+      return points;
+    }
+    case "step":
+      return Array.from({ length: profile.steps }, (_, i): RatePoint[] => [
+        [i * profile.stepS, (tps * (i + 1)) / profile.steps],
+        [(i + 1) * profile.stepS, (tps * (i + 1)) / profile.steps],
+      ]).flat();
+    case "spike":
+      return [
+        [0, tps],
+        [profile.spikeAtS, tps],
+        [profile.spikeAtS, profile.spikeTps],
+        [profile.spikeAtS + profile.spikeS, profile.spikeTps],
+        [profile.spikeAtS + profile.spikeS, tps],
+      ];
+  }
+}
+
+// Target rate `elapsedS` into the run
+export function rateAt(profile: LoadProfile, elapsedS: number) {
+  if (profile.durationS > 0 && elapsedS >= profile.durationS) return 0;
+
+  const points = ratePoints(profile);
+  let rate = points[0][1];
+  for (let i = 0; i < points.length; i++) {
+    const [t, r] = points[i];
+    if (elapsedS < t) {
+      const [t0, r0] = points[i - 1] ?? [0, r];
+      return t === t0 ? rate : r0 + ((r - r0) * (elapsedS - t0)) / (t - t0);
+    }
+    rate = r;
+  }
+  return rate;
+}
+
+// Txs the profile calls for by `elapsedS`, the integral of its rate
+export function sendsBy(profile: LoadProfile, elapsedS: number) {
+  const endS =
+    profile.durationS > 0 ? Math.min(elapsedS, profile.durationS) : elapsedS;
+  const points = ratePoints(profile);
+
+  let total = 0;
+  let [prevT, prevR] = [0, points[0][1]];
+  for (const [t, r] of points) {
+    if (t >= endS) {
+      const rAtEnd =
+        t === prevT ? prevR : prevR + ((r - prevR) * (endS - prevT)) / (t - prevT);
+      return total + ((prevR + rAtEnd) / 2) * (endS - prevT);
+    }
+    total += ((prevR + r) / 2) * (t - prevT);
+    [prevT, prevR] = [t, r];
+  }
+  return total + prevR * (endS - prevT);
+}
+
+// Returns an error message or null
+export function validateLoadProfile(profile: LoadProfile): string | null {
+  const { kind, ...values } = profile;
+  if (Object.values(values).some((value) => !Number.isFinite(value) || value < 0)) {
+    return "Load settings must be non-negative numbers";
+  }
+  if (profile.targetTps <= 0) return "Target TPS must be above 0";
+
+  switch (kind) {
+    case "ramp":
+      if (
+        profile.durationS > 0 &&
+        profile.rampUpS + profile.rampDownS > profile.durationS
+      ) {
+        return "Ramp up and down don't fit in the duration";
+      }
+      return null;
+    case "step":
+      if (!Number.isInteger(profile.steps) || profile.steps < 1) {
+        return "Steps must be a whole number of at least 1";
+      }
+      if (profile.stepS <= 0) return "Step length must be above 0";
+      return null;
+    case "spike":
+      if (profile.spikeTps <= 0) return "Spike TPS must be above 0";
+      return null;
+    default:
+      return null;
+  }
+}
+
+export function describeLoadProfile(profile: LoadProfile) {
+  const duration =
+    profile.durationS > 0 ? ` for ${profile.durationS}s` : " until stopped";
+  switch (profile.kind) {
+    case "constant":
+      return `${profile.targetTps} TPS${duration}`;
+    case "ramp":
+      return `ramp to ${profile.targetTps} TPS over ${profile.rampUpS}s${duration}`;
+    case "step":
+      return `${profile.steps} steps of ${profile.stepS}s to ${profile.targetTps} TPS${duration}`;
+    case "spike":
+      return `${profile.targetTps} TPS, ${profile.spikeTps} TPS spike at ${profile.spikeAtS}s${duration}`;
+  }
+}
+
+export type LoadStats = {
+  elapsedS: number;
+  targetTps: number;
+  // Over the last few seconds
+  achievedTps: number;
+  sentTxs: number;
+  // Sends dropped by the in-flight cap or after a stall
+  skippedTxs: number;
+};
+
+export const EMPTY_LOAD_STATS: LoadStats = {
+  elapsedS: 0,
+  targetTps: 0,
+  achievedTps: 0,
+  sentTxs: 0,
+  skippedTxs: 0,
+};
+
+/**
+ * Fires sends to follow a load profile. How many txs are due is worked out
+ * from the time since start rather than counted per tick, so late timers
+ * never add up to drift. `send` starts a send and returns how many txs it
+ * put out, `inFlight` reports how many txs are still waiting for a receipt.
+ */
+export class LoadScheduler {
+  private startMs = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  // Txs sent or skipped, i.e. the part of the schedule already dealt with
+  private handledTxs = 0;
+  private sentTxs = 0;
+  private skippedTxs = 0;
+  private recent: [number, number][] = [];
+
+  constructor(
+    private profile: LoadProfile,
+    private send: () => number,
+    private inFlight: () => number,
+    private onDone: () => void
+  ) {}
+
+  public start() {
+    this.startMs = performance.now();
+    this.tick();
+  }
+
+  public stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+  }
+
+  private tick = () => {
+    const now = performance.now();
+    const elapsedS = (now - this.startMs) / 1000;
+    const due = Math.floor(sendsBy(this.profile, elapsedS));
+
+    if (due - this.handledTxs > MAX_CATCH_UP_TXS) {
+      this.skippedTxs += due - this.handledTxs - MAX_CATCH_UP_TXS;
+      this.handledTxs = due - MAX_CATCH_UP_TXS;
+    }
+
+    const { maxInFlight } = this.profile;
+    while (this.handledTxs < due) {
+      if (maxInFlight > 0 && this.inFlight() >= maxInFlight) {
+        this.skippedTxs += due - this.handledTxs;
+        this.handledTxs = due;
+        break;
+      }
+      const count = this.send();
+      if (count === 0) break;
+      this.handledTxs += count;
+      this.sentTxs += count;
+      this.recent.push([now, count]);
+    }
+
+    if (this.profile.durationS > 0 && elapsedS >= this.profile.durationS) {
+      this.stop();
+      this.onDone();
+      return;
+    }
+
+    // Sleep until the next tx is due at the current rate, checking back
+    // regularly in case the rate changes meanwhile
+    const rate = rateAt(this.profile, elapsedS);
+    const owed = this.handledTxs + 1 - sendsBy(this.profile, elapsedS);
+    const waitMs = rate > 0 ? (owed / rate) * 1000 : MAX_TICK_MS;
+    this.timer = setTimeout(
+      this.tick,
+      Math.min(Math.max(waitMs, 0), MAX_TICK_MS)
+    );
+  };
+
+  public stats(): LoadStats {
+    const now = performance.now();
+    const elapsedS = (now - this.startMs) / 1000;
+    this.recent = this.recent.filter(([ms]) => now - ms < ACHIEVED_WINDOW_MS);
+    const windowS = Math.min(elapsedS, ACHIEVED_WINDOW_MS / 1000);
+    const recentTxs = this.recent.reduce((sum, [, count]) => sum + count, 0);
+
+    return {
+      elapsedS,
+      targetTps: rateAt(this.profile, elapsedS),
+      achievedTps: windowS > 0 ? recentTxs / windowS : 0,
+      sentTxs: this.sentTxs,
+      skippedTxs: this.skippedTxs,
+    };
+  }
+}
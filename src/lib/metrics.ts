@@ -0,0 +1,82 @@
+// Prefix of every metric name, keeps them apart from other jobs' metrics
+const PREFIX = "frags_";
+
+export type MetricLabels = Record<string, string>;
+
+export type MetricSample = {
+  labels: MetricLabels;
+  value: number;
+};
+
+export type Metric = {
+  name: string;
+  help: string;
+  type: "counter" | "gauge";
+  samples: MetricSample[];
+};
+
+function escapeLabel(value: string) {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+}
+
+function formatSample(name: string, { labels, value }: MetricSample) {
+  const pairs = Object.entries(labels).map(([key, v]) => `${key}="${escapeLabel(v)}"`);
+  const suffix = pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+  return `${name}${suffix} ${Number.isFinite(value) ? value : "NaN"}`;
+}
+
+// Renders metrics in the Prometheus text exposition format
+export function formatMetrics(metrics: Metric[]): string {
+  return metrics
+    .map(({ name, help, type, samples }) => [
+      `# HELP ${PREFIX}${name} ${help}`,
+      `# TYPE ${PREFIX}${name} ${type}`,
+      ...samples.map(sample => formatSample(PREFIX + name, sample)),
+    ].join("\n"))
+    .join("\n") + "\n";
+}
+
+/**
+ * Monotonic count of events per label set, for things that happen and are
+ * gone, like a request or a fetch. State that can be read at scrape time is
+ * exported as a gauge by the metrics route instead.
+ */
+export class Counter {
+  private values: Map<string, MetricSample> = new Map();
+
+  constructor(private name: string, private help: string) {}
+
+  public inc(labels: MetricLabels, by = 1) {
+    const key = JSON.stringify(labels);
+    const sample = this.values.get(key);
+    if (sample) {
+      sample.value += by;
+    } else {
+      this.values.set(key, { labels, value: by });
+    }
+  }
+
+  public collect(): Metric {
+    return {
+      name: this.name,
+      help: this.help,
+      type: "counter",
+      samples: Array.from(this.values.values()),
+    };
+  }
+}
+
+export const registryFetches = new Counter(
+  "registry_fetches_total",
+  "Registry polls by network and result, a poll counts once however often it retried"
+);
+
+export const airdropRequests = new Counter(
+  "airdrop_requests_total",
+  "Airdrop requests by network and HTTP status of the answer"
+);
+
+export const airdropJobs = new Counter(
+  "airdrop_jobs_total",
+  "Airdrop jobs by network and final status"
+);
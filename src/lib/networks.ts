@@ -0,0 +1,139 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { PublicNetwork } from '@/types';
+
+const DEFAULT_NETWORKS_FILE = path.join(process.cwd(), "networks.json");
+// Name of the profile built from the individual env vars when there is no file
+export const ENV_NETWORK_NAME = "default";
+
+export type FaucetSettings = {
+  amountEth: string; // Per recipient
+  budgetEth: string;
+  budgetWindowMs: number;
+  ipCooldownMs: number;
+  addressCooldownMs: number;
+};
+
+export type NetworkProfile = {
+  name: string;
+  label: string;
+  chainId?: number;
+  rpcUrl: string;
+  // Sequencer RPC, used for the faucet, the relay and as the sync-lag reference
+  privateRpcUrl?: string;
+  registryRpcUrl?: string;
+  explorerUrl?: string;
+  fragWsUrl?: string;
+  // Env var holding the faucet key, so keys stay out of the profiles file
+  fundingKeyEnv?: string;
+  faucet: FaucetSettings;
+};
+
+function envNumber(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+const DEFAULT_FAUCET: FaucetSettings = {
+  amountEth: "0.01",
+  budgetEth: process.env.AIRDROP_BUDGET_ETH || "1",
+  budgetWindowMs: envNumber("AIRDROP_BUDGET_WINDOW_MS", 60 * 60 * 1000),
+  ipCooldownMs: envNumber("AIRDROP_IP_COOLDOWN_MS", 10 * 60 * 1000),
+  addressCooldownMs: envNumber("AIRDROP_ADDRESS_COOLDOWN_MS", 60 * 60 * 1000),
+};
+
+// The single profile deployments without a networks file have always had
+function networkFromEnv(): NetworkProfile {
+  return {
+    name: ENV_NETWORK_NAME,
+    label: "Default",
+    chainId: Number(process.env.CHAIN_ID) || undefined,
+    rpcUrl: process.env.NEXT_PUBLIC_DEFAULT_RPC_URL || "",
+    privateRpcUrl: process.env.NEXT_PRIVATE_RPC_URL || undefined,
+    registryRpcUrl: process.env.NEXT_PUBLIC_REGISTRY_RPC_URL || undefined,
+    explorerUrl: process.env.NEXT_PUBLIC_EXPLORER_URL || undefined,
+    fragWsUrl: process.env.NEXT_PUBLIC_FRAG_WS_URL || undefined,
+    fundingKeyEnv: "FUNDING_PRIVATE_KEY",
+    faucet: DEFAULT_FAUCET,
+  };
+}
+
+// Returns an error message or null
+function validateProfile(profile: Partial<NetworkProfile>): string | null {
+  if (typeof profile.name !== "string" || !/^[a-z0-9-]+$/.test(profile.name)) {
+    return 'name must be lowercase letters, digits and dashes';
+  }
+  if (typeof profile.rpcUrl !== "string" || !profile.rpcUrl) {
+    return 'rpcUrl is required';
+  }
+  if (profile.chainId !== undefined && !Number.isInteger(profile.chainId)) {
+    return 'chainId must be an integer';
+  }
+  return null;
+}
+
+function loadNetworks(): NetworkProfile[] {
+  const file = process.env.NETWORKS_FILE || DEFAULT_NETWORKS_FILE;
+
+  let content: string;
+  try {
+    content = readFileSync(file, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT" && !process.env.NETWORKS_FILE) {
+      return [networkFromEnv()];
+    }
+    throw error;
+  }
+
+  const profiles: Partial<NetworkProfile>[] = JSON.parse(content);
+  if (!Array.isArray(profiles) || profiles.length === 0) {
+    throw new Error(`${file} must hold a non-empty array of network profiles`);
+  }
+  return profiles.map((profile, i) => {
+    const error = validateProfile(profile);
+    if (error) {
+      throw new Error(`Network profile ${profile.name ?? i} in ${file}: ${error}`);
+    }
+    return {
+      ...profile,
+      label: profile.label || profile.name,
+      faucet: { ...DEFAULT_FAUCET, ...profile.faucet },
+    } as NetworkProfile;
+  });
+}
+
+let networks: NetworkProfile[] | null = null;
+
+// Profiles in file order, the first one is the default
+export function getNetworks(): NetworkProfile[] {
+  networks ??= loadNetworks();
+  return networks;
+}
+
+// The named profile, or the default one when no name is given
+export function getNetwork(name?: string | null): NetworkProfile | undefined {
+  const all = getNetworks();
+  return name ? all.find(network => network.name === name) : all[0];
+}
+
+// Picks the profile from the `network` query param
+export function networkFromRequest(request: Request): NetworkProfile | undefined {
+  return getNetwork(new URL(request.url).searchParams.get("network"));
+}
+
+export function fundingKey(network: NetworkProfile): string | undefined {
+  return network.fundingKeyEnv ? process.env[network.fundingKeyEnv] : undefined;
+}
+
+export function toPublicNetwork(network: NetworkProfile): PublicNetwork {
+  return {
+    name: network.name,
+    label: network.label,
+    chainId: network.chainId,
+    rpcUrl: network.rpcUrl,
+    explorerUrl: network.explorerUrl,
+    fragWsUrl: network.fragWsUrl,
+    hasPrivateRpc: !!network.privateRpcUrl,
+    hasFaucet: !!fundingKey(network),
+  };
+}
@@ -0,0 +1,168 @@
+import { JsonRpcProvider, isError } from "ethers";
+
+// How long the lowest in-flight nonce may sit unmined before we act on it
+const STUCK_AFTER_MS = 10_000;
+
+export type SendErrorKind =
+  | "nonce-too-low"
+  | "already-known"
+  | "underpriced"
+  | "insufficient-funds"
+  | "timeout"
+  | "unknown";
+
+export function classifySendError(error: unknown): SendErrorKind {
+  if (isError(error, "NONCE_EXPIRED")) return "nonce-too-low";
+  if (isError(error, "REPLACEMENT_UNDERPRICED")) return "underpriced";
+  if (isError(error, "INSUFFICIENT_FUNDS")) return "insufficient-funds";
+  if (isError(error, "TIMEOUT")) return "timeout";
+
+  const message = error instanceof Error ? error.message.toLowerCase() : "";
+  if (message.includes("nonce too low")) return "nonce-too-low";
+  if (message.includes("already known")) return "already-known";
+  if (message.includes("underpriced")) return "underpriced";
+  if (message.includes("insufficient funds")) return "insufficient-funds";
+  if (message.includes("timeout")) return "timeout";
+  return "unknown";
+}
+
+type InFlight = {
+  sentMs: number;
+  attempts: number;
+};
+
+type AccountState = {
+  next: number;
+  inFlight: Map<number, InFlight>;
+};
+
+export type NonceHealth = {
+  // Nonces below the highest in-flight one that the node never saw
+  gaps: number[];
+  // The next nonce to be mined, if it has been waiting too long
+  stuck: { nonce: number; attempts: number } | null;
+};
+
+/**
+ * Hands out nonces per account and keeps them consistent with the node.
+ * Nonces are reserved optimistically; failed sends and stalls are detected
+ * and resolved by resyncing against the pending nonce, filling gaps or
+ * replacing the stuck transaction.
+ */
+export class NonceManager {
+  private accounts: Map<string, AccountState> = new Map();
+
+  constructor(private provider: JsonRpcProvider) {}
+
+  // Moves to another endpoint of the same chain, nonces in flight stay tracked
+  public setProvider(provider: JsonRpcProvider) {
+    this.provider = provider;
+  }
+
+  public has(address: string) {
+    return this.accounts.has(address);
+  }
+
+  // An account set up before keeps its in-flight nonces, so stuck detection
+  // and replacement carry on; only the next nonce is resynced
+  public async init(address: string) {
+    const next = await this.provider.getTransactionCount(address, "pending");
+    const account = this.accounts.get(address);
+    if (account) {
+      account.next = next;
+    } else {
+      this.accounts.set(address, { next, inFlight: new Map() });
+    }
+    return next;
+  }
+
+  public clear() {
+    this.accounts.clear();
+  }
+
+  public reserve(address: string): number {
+    const account = this.getAccount(address);
+    // Skip nonces still in flight, e.g. after resyncing below a queued tx
+    while (account.inFlight.has(account.next)) {
+      account.next += 1;
+    }
+    const nonce = account.next;
+    account.next += 1;
+    account.inFlight.set(nonce, { sentMs: Date.now(), attempts: 0 });
+    return nonce;
+  }
+
+  // Claims a specific nonce, used to fill a gap
+  public claim(address: string, nonce: number) {
+    this.getAccount(address).inFlight.set(nonce, {
+      sentMs: Date.now(),
+      attempts: 0,
+    });
+  }
+
+  public markReplaced(address: string, nonce: number) {
+    const entry = this.getAccount(address).inFlight.get(nonce);
+    if (entry) {
+      entry.sentMs = Date.now();
+      entry.attempts += 1;
+    }
+  }
+
+  public markMined(address: string, nonce: number) {
+    this.getAccount(address).inFlight.delete(nonce);
+  }
+
+  // Gives back a nonce whose tx never reached the node and resyncs
+  public async release(address: string, nonce: number) {
+    this.getAccount(address).inFlight.delete(nonce);
+    await this.resync(address);
+  }
+
+  public async resync(address: string) {
+    const account = this.getAccount(address);
+    const pending = await this.provider.getTransactionCount(address, "pending");
+    if (pending !== account.next) {
+      console.log(`Resyncing nonce for ${address}: ${account.next} -> ${pending}`);
+    }
+    account.next = pending;
+    return pending;
+  }
+
+  public async checkHealth(address: string): Promise<NonceHealth> {
+    const account = this.getAccount(address);
+    const mined = await this.provider.getTransactionCount(address, "latest");
+
+    for (const nonce of account.inFlight.keys()) {
+      if (nonce < mined) account.inFlight.delete(nonce);
+    }
+
+    const health: NonceHealth = { gaps: [], stuck: null };
+    if (account.inFlight.size === 0) return health;
+
+    const now = Date.now();
+    const oldest = Math.min(
+      ...Array.from(account.inFlight.values()).map((entry) => entry.sentMs)
+    );
+    if (now - oldest < STUCK_AFTER_MS) return health;
+
+    const highest = Math.max(...account.inFlight.keys());
+    for (let nonce = mined; nonce < highest; nonce++) {
+      if (!account.inFlight.has(nonce)) health.gaps.push(nonce);
+    }
+
+    const head = account.inFlight.get(mined);
+    if (head && now - head.sentMs >= STUCK_AFTER_MS) {
+      health.stuck = { nonce: mined, attempts: head.attempts };
+    }
+
+    return health;
+  }
+
+  private getAccount(address: string): AccountState {
+    const account = this.accounts.get(address);
+    if (!account) {
+      throw new Error(`Nonce manager not initialized for ${address}`);
+    }
+    return account;
+  }
+}
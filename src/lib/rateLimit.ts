@@ -0,0 +1,59 @@
+// Proxies of the deployment that append to X-Forwarded-For. Entries before
+// theirs come from the client and can be anything
+const TRUSTED_PROXY_HOPS = trustedProxyHops();
+
+function trustedProxyHops() {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS || 1);
+  return Number.isInteger(hops) && hops >= 0 ? hops : 1;
+}
+
+// The address the outermost trusted proxy saw the request come from. Route
+// handlers get no socket address, so without a proxy every client is "unknown"
+export function clientIp(request: Request): string {
+  if (TRUSTED_PROXY_HOPS === 0) return "unknown";
+
+  const hops = (request.headers.get("x-forwarded-for") ?? "")
+    .split(",")
+    .map(hop => hop.trim())
+    .filter(Boolean);
+  if (hops.length >= TRUSTED_PROXY_HOPS) {
+    return hops[hops.length - TRUSTED_PROXY_HOPS];
+  }
+  return request.headers.get("x-real-ip") || "unknown";
+}
+
+/**
+ * In-memory sliding window limit of `limit` hits per key every `windowMs`.
+ * Keys without a hit in the window are dropped as others come in.
+ */
+export class RateLimiter {
+  private hits: Map<string, number[]> = new Map();
+  private lastPrunedMs = 0;
+
+  constructor(private limit: number, private windowMs: number) {}
+
+  // Records a hit and returns false if the key is over its limit
+  public allow(key: string): boolean {
+    const now = Date.now();
+    this.prune(now);
+
+    const recent = (this.hits.get(key) ?? []).filter(timeMs => now - timeMs < this.windowMs);
+    if (recent.length >= this.limit) {
+      this.hits.set(key, recent);
+      return false;
+    }
+    recent.push(now);
+    this.hits.set(key, recent);
+    return true;
+  }
+
+  private prune(now: number) {
+    if (now - this.lastPrunedMs < this.windowMs) return;
+    this.lastPrunedMs = now;
+    this.hits.forEach((times, key) => {
+      if (now - times[times.length - 1] >= this.windowMs) {
+        this.hits.delete(key);
+      }
+    });
+  }
+}
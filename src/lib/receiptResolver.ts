@@ -0,0 +1,159 @@
+import { JsonRpcProvider, toQuantity } from "ethers";
+
+// Don't walk more blocks than this per head update, e.g. after a sleeping tab
+const MAX_BLOCKS_PER_SCAN = 10;
+// Blocks kept around so txs registered after their block was scanned still match
+const RECENT_BLOCKS = 32;
+
+export type ResolvedReceipt = {
+  hash: string;
+  blockNumber: number;
+  blockHash: string;
+  index: number;
+  // When the resolver first picked this block up
+  seenMs: number;
+};
+
+type RawReceipt = {
+  transactionHash: string;
+  blockNumber: string;
+  blockHash: string;
+  transactionIndex: string;
+};
+
+function isMethodNotFound(error: unknown) {
+  const code = (error as { error?: { code?: number } })?.error?.code;
+  return code === -32601;
+}
+
+function parseReceipt(raw: RawReceipt, seenMs: number): ResolvedReceipt {
+  return {
+    hash: raw.transactionHash,
+    blockNumber: Number(raw.blockNumber),
+    blockHash: raw.blockHash,
+    index: Number(raw.transactionIndex),
+    seenMs,
+  };
+}
+
+/**
+ * Resolves receipts once per new head instead of once per pending tx.
+ * Uses eth_getBlockReceipts when the node supports it, otherwise falls back
+ * to eth_getTransactionReceipt for every pending hash, which ethers sends as
+ * a single JSON-RPC batch.
+ */
+export class ReceiptResolver {
+  private supportsBlockReceipts = true;
+  private lastScannedBlock: number | null = null;
+  private lastFetchedHead: number | null = null;
+  private recentReceipts: Map<number, ResolvedReceipt[]> = new Map();
+
+  constructor(private provider: JsonRpcProvider) {}
+
+  public async resolve(
+    headBlock: number,
+    hashes: string[]
+  ): Promise<Map<string, ResolvedReceipt>> {
+    const seenMs = Date.now();
+
+    if (this.supportsBlockReceipts) {
+      try {
+        const skipped = await this.scanBlocks(headBlock, hashes, seenMs);
+        const resolved = this.matchRecent(hashes);
+        skipped.forEach((receipt, hash) => resolved.set(hash, receipt));
+        return resolved;
+      } catch (error) {
+        if (!isMethodNotFound(error)) throw error;
+        console.warn("eth_getBlockReceipts unavailable, batching receipts");
+        this.supportsBlockReceipts = false;
+      }
+    }
+
+    return this.fetchByHash(headBlock, hashes, seenMs);
+  }
+
+  // Returns what the blocks skipped over can't: the receipts of txs that
+  // are still unmatched, looked up by hash
+  private async scanBlocks(headBlock: number, hashes: string[], seenMs: number) {
+    const next = (this.lastScannedBlock ?? headBlock - 1) + 1;
+    const from = Math.max(next, headBlock - MAX_BLOCKS_PER_SCAN + 1);
+
+    const blocks = Array.from(
+      { length: Math.max(headBlock - from + 1, 0) },
+      (_, i) => from + i
+    );
+    // A node that hasn't caught up with the head yet answers null
+    const results: (RawReceipt[] | null)[] = await Promise.all(
+      blocks.map((n) => this.provider.send("eth_getBlockReceipts", [toQuantity(n)]))
+    );
+
+    blocks.forEach((n, i) => {
+      const raw = results[i];
+      if (raw) this.recentReceipts.set(n, raw.map((r) => parseReceipt(r, seenMs)));
+    });
+
+    let skipped: Map<string, ResolvedReceipt> = new Map();
+    if (from > next) {
+      const matched = this.matchRecent(hashes);
+      skipped = await this.fetchReceipts(
+        hashes.filter((hash) => !matched.has(hash.toLowerCase())),
+        seenMs
+      );
+    }
+
+    // A block counts as scanned only once its receipts came back, so the
+    // next head picks up again from the first one that didn't
+    const missing = results.findIndex((raw) => !raw);
+    const scannedTo = missing === -1 ? headBlock : from + missing - 1;
+    this.lastScannedBlock = Math.max(this.lastScannedBlock ?? 0, scannedTo);
+
+    for (const n of this.recentReceipts.keys()) {
+      if (n <= headBlock - RECENT_BLOCKS) {
+        this.recentReceipts.delete(n);
+      }
+    }
+    return skipped;
+  }
+
+  private matchRecent(hashes: string[]) {
+    const wanted = new Set(hashes.map((hash) => hash.toLowerCase()));
+    const resolved: Map<string, ResolvedReceipt> = new Map();
+    for (const receipts of this.recentReceipts.values()) {
+      for (const receipt of receipts) {
+        if (wanted.has(receipt.hash.toLowerCase())) {
+          resolved.set(receipt.hash.toLowerCase(), receipt);
+        }
+      }
+    }
+    return resolved;
+  }
+
+  private async fetchByHash(headBlock: number, hashes: string[], seenMs: number) {
+    // Only hit the node again once the head has moved
+    if (this.lastFetchedHead === headBlock) return new Map();
+
+    const resolved = await this.fetchReceipts(hashes, seenMs);
+    // Set only now, so a failed fetch is retried at the same head
+    this.lastFetchedHead = headBlock;
+    return resolved;
+  }
+
+  private async fetchReceipts(hashes: string[], seenMs: number) {
+    const resolved: Map<string, ResolvedReceipt> = new Map();
+    const receipts = await Promise.all(
+      hashes.map((hash) => this.provider.getTransactionReceipt(hash))
+    );
+
+    for (const rcpt of receipts) {
+      if (!rcpt) continue;
+      resolved.set(rcpt.hash.toLowerCase(), {
+        hash: rcpt.hash,
+        blockNumber: rcpt.blockNumber,
+        blockHash: rcpt.blockHash,
+        index: rcpt.index,
+        seenMs,
+      });
+    }
+    return resolved;
+  }
+}
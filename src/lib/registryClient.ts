@@ -0,0 +1,57 @@
+import { FutureGateway, FutureGatewayResponse, RegisteredGatewaysResponse } from '@/types';
+import { JsonRpcClient } from '@/lib/jsonRpc';
+
+// Blocks of leader schedule fetched per poll, shared by the server store and
+// the headless runner so both see the same window
+const lookahead = Number(process.env.REGISTRY_LOOKAHEAD_BLOCKS);
+export const LOOKAHEAD_BLOCKS = Number.isInteger(lookahead) && lookahead > 0 ? lookahead : 60;
+
+export type RegistryMethods = {
+  registry_registeredGateways: {
+    params: [];
+    result: RegisteredGatewaysResponse["result"];
+  };
+  registry_futureGateway: {
+    params: [number];
+    result: FutureGatewayResponse["result"];
+  };
+};
+
+// Entries are [url, address, ...], later fields vary between registry versions
+function isRegisteredGateways(result: unknown): result is RegisteredGatewaysResponse["result"] {
+  return Array.isArray(result) && result.every(entry =>
+    Array.isArray(entry) &&
+    entry.length >= 2 &&
+    entry.every(field => typeof field === "string")
+  );
+}
+
+// [blockNumber, url, address, ...]
+function isFutureGateway(result: unknown): result is FutureGatewayResponse["result"] {
+  return (
+    Array.isArray(result) &&
+    result.length >= 3 &&
+    typeof result[0] === "number" &&
+    result.slice(1).every(field => typeof field === "string")
+  );
+}
+
+export function createRegistryClient(url: string, timeoutMs?: number) {
+  return new JsonRpcClient<RegistryMethods>(
+    url,
+    {
+      registry_registeredGateways: isRegisteredGateways,
+      registry_futureGateway: isFutureGateway,
+    },
+    timeoutMs
+  );
+}
+
+export type RegistryClient = ReturnType<typeof createRegistryClient>;
+
+// Leaders of the next `blocks` blocks, in one batch round trip
+export async function fetchLookahead(client: RegistryClient, blocks: number): Promise<FutureGateway[]> {
+  const offsets = Array.from({ length: blocks }, (_, i): [number] => [i]);
+  const results = await client.batch("registry_futureGateway", offsets);
+  return results.map(([blockNumber, url, address]) => ({ blockNumber, url, address }));
+}
@@ -0,0 +1,185 @@
+import { createReadStream, promises as fs } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { RegistryHistoryRecord } from '@/types';
+import { NetworkProfile } from '@/lib/networks';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type HistoryQuery = {
+  fromMs?: number;
+  toMs?: number;
+  fromBlock?: number;
+  toBlock?: number;
+  kind?: RegistryHistoryRecord["kind"];
+  limit: number;
+};
+
+const BASE_DIR = process.env.REGISTRY_HISTORY_DIR || path.join(process.cwd(), "data", "registry-history");
+// Days of history kept, anything but a positive whole number falls back
+const retention = Number(process.env.REGISTRY_HISTORY_DAYS);
+const RETENTION_DAYS = Number.isInteger(retention) && retention > 0 ? retention : 7;
+
+/**
+ * Append-only JSONL store for registry snapshots, one file per UTC day and
+ * a directory per network. Files older than the retention window are
+ * deleted as new days start.
+ */
+class RegistryHistory {
+  private static instances: Map<string, RegistryHistory> = new Map();
+  private dir: string;
+  // Chain writes so records stay in order
+  private writeQueue: Promise<void> = Promise.resolve();
+  private lastPrunedDay: string | null = null;
+
+  private constructor(network: string) {
+    this.dir = path.join(BASE_DIR, network);
+  }
+
+  public static forNetwork(network: NetworkProfile): RegistryHistory {
+    let history = RegistryHistory.instances.get(network.name);
+    if (!history) {
+      history = new RegistryHistory(network.name);
+      RegistryHistory.instances.set(network.name, history);
+    }
+    return history;
+  }
+
+  private dayOf(timeMs: number) {
+    return new Date(timeMs).toISOString().slice(0, 10);
+  }
+
+  private fileFor(day: string) {
+    return path.join(this.dir, `${day}.jsonl`);
+  }
+
+  public append(records: RegistryHistoryRecord[]) {
+    if (records.length === 0) return;
+
+    this.writeQueue = this.writeQueue
+      .then(async () => {
+        await fs.mkdir(this.dir, { recursive: true });
+        const day = this.dayOf(records[0].timeMs);
+        const lines = records.map(record => JSON.stringify(record)).join("\n") + "\n";
+        await fs.appendFile(this.fileFor(day), lines);
+
+        if (this.lastPrunedDay !== day) {
+          this.lastPrunedDay = day;
+          await this.prune();
+        }
+      })
+      .catch(error => {
+        console.error('Failed to write registry history:', error);
+      });
+  }
+
+  private async listDays(): Promise<string[]> {
+    try {
+      const files = await fs.readdir(this.dir);
+      return files
+        .filter(file => file.endsWith(".jsonl"))
+        .map(file => file.replace(".jsonl", ""))
+        .sort();
+    } catch {
+      return [];
+    }
+  }
+
+  private async prune() {
+    const cutoff = this.dayOf(Date.now() - RETENTION_DAYS * DAY_MS);
+    for (const day of await this.listDays()) {
+      if (day < cutoff) {
+        await fs.unlink(this.fileFor(day));
+      }
+    }
+  }
+
+  // Streams the records of a day, so a query only reads as far as it needs.
+  // A day pruned between listing and reading is empty
+  private async *readDay(day: string): AsyncGenerator<RegistryHistoryRecord> {
+    const stream = createReadStream(this.fileFor(day), { encoding: "utf8" });
+    const lines = readline.createInterface({ input: stream, crlfDelay: Infinity });
+    try {
+      for await (const line of lines) {
+        if (!line) continue;
+        let record: RegistryHistoryRecord;
+        try {
+          record = JSON.parse(line);
+        } catch {
+          // A partially written last line after a crash
+          continue;
+        }
+        yield record;
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    } finally {
+      lines.close();
+      stream.destroy();
+    }
+  }
+
+  private inBlockRange(blockNumber: number, query: HistoryQuery) {
+    return (
+      (query.fromBlock === undefined || blockNumber >= query.fromBlock) &&
+      (query.toBlock === undefined || blockNumber <= query.toBlock)
+    );
+  }
+
+  public async query(query: HistoryQuery): Promise<RegistryHistoryRecord[]> {
+    const fromDay = query.fromMs !== undefined ? this.dayOf(query.fromMs) : null;
+    const toDay = query.toMs !== undefined ? this.dayOf(query.toMs) : null;
+    const hasBlockRange = query.fromBlock !== undefined || query.toBlock !== undefined;
+
+    const results: RegistryHistoryRecord[] = [];
+    for (const day of await this.listDays()) {
+      if ((fromDay && day < fromDay) || (toDay && day > toDay)) continue;
+
+      for await (const record of this.readDay(day)) {
+        if (query.fromMs !== undefined && record.timeMs < query.fromMs) continue;
+        if (query.toMs !== undefined && record.timeMs > query.toMs) continue;
+        if (query.kind && record.kind !== query.kind) continue;
+
+        if (hasBlockRange) {
+          // Only schedule records carry block numbers
+          if (record.kind !== "schedule") continue;
+          const futureGateways = record.futureGateways.filter(gw =>
+            this.inBlockRange(gw.blockNumber, query)
+          );
+          if (futureGateways.length === 0) continue;
+          results.push({ ...record, futureGateways });
+        } else {
+          results.push(record);
+        }
+
+        if (results.length >= query.limit) return results;
+      }
+    }
+    return results;
+  }
+
+  // Most recent gateway set and schedule, used to warm up after a restart
+  public async latest() {
+    const days = await this.listDays();
+    let gateways: Extract<RegistryHistoryRecord, { kind: "gateways" }> | undefined;
+    let schedule: Extract<RegistryHistoryRecord, { kind: "schedule" }> | undefined;
+
+    for (const day of days.reverse()) {
+      // The last of each kind within the day, earlier days only fill gaps
+      let dayGateways: typeof gateways;
+      let daySchedule: typeof schedule;
+      for await (const record of this.readDay(day)) {
+        if (record.kind === "gateways") dayGateways = record;
+        if (record.kind === "schedule") daySchedule = record;
+      }
+      gateways ??= dayGateways;
+      schedule ??= daySchedule;
+      if (gateways && schedule) break;
+    }
+    return { gateways, schedule };
+  }
+}
+
+export function registryHistoryFor(network: NetworkProfile) {
+  return RegistryHistory.forNetwork(network);
+}
@@ -1,175 +1,317 @@
-import { Gateway, FutureGateway } from '@/types';
+import { Gateway, FutureGateway, PingSample, RegistryData } from '@/types';
+import { registryHistoryFor } from '@/lib/registryHistory';
+import { GatewayHealth, probeRpc } from '@/lib/gatewayProbe';
+import {
+  LOOKAHEAD_BLOCKS,
+  RegistryClient,
+  createRegistryClient,
+  fetchLookahead,
+} from '@/lib/registryClient';
+import { NetworkProfile } from '@/lib/networks';
+import { registryFetches } from '@/lib/metrics';
 
-type RegistryData = {
-  lastUpdated: number;
-  gateways: Gateway[];
-  futureGateways: FutureGateway[];
+// Falls back to the default unless the env var holds a positive integer
+function envPositiveInt(name: string, fallback: number) {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
 }
 
+const POLL_INTERVAL_MS = envPositiveInt("REGISTRY_POLL_INTERVAL_MS", 20000);
+const REQUEST_TIMEOUT_MS = 5000;
+const MAX_FETCH_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 500;
+// Without a successful fetch for two polls, the data is reported as stale
+const STALE_AFTER_MS = 2 * POLL_INTERVAL_MS + REQUEST_TIMEOUT_MS;
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Registry data of one network, polled for as long as the server runs
 class RegistryStore {
-  private static instance: RegistryStore;
+  private static instances: Map<string, RegistryStore> = new Map();
   private data: RegistryData = {
     lastUpdated: 0,
     gateways: [],
-    futureGateways: []
+    futureGateways: [],
+    stale: false,
+    lastError: null
   };
+  private networkName: string;
+  private client: RegistryClient | null;
+  private history: ReturnType<typeof registryHistoryFor>;
+  // Head the gateways' sync lag is measured against
+  private sequencerRpcUrl: string;
   private updateInterval: NodeJS.Timeout | null = null;
-  private pingIntervals: Map<string, NodeJS.Timeout> = new Map();
-  private pingMeasurements: Map<string, number[]> = new Map();
+  // Retries can outlast a poll interval, never run two updates at once
+  private updating = false;
+  private probeIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private health: Map<string, GatewayHealth> = new Map();
+  // Gateways with a probe still in flight, a slow one is skipped rather than stacked
+  private probing: Set<string> = new Set();
+  private sequencerInterval: NodeJS.Timeout | null = null;
+  private sequencerHead: number | null = null;
+  // Ping samples collected since the last history write
+  private pingSamples: PingSample[] = [];
+  private listeners: Set<(data: RegistryData) => void> = new Set();
+  private notifyTimeout: NodeJS.Timeout | null = null;
   
-  private constructor() {
+  private constructor(network: NetworkProfile) {
+    this.networkName = network.name;
+    this.client = network.registryRpcUrl
+      ? createRegistryClient(network.registryRpcUrl, REQUEST_TIMEOUT_MS)
+      : null;
+    this.history = registryHistoryFor(network);
+    this.sequencerRpcUrl = network.privateRpcUrl || network.rpcUrl;
+
+    if (!this.client) {
+      this.data = { ...this.data, lastError: `No registry configured for ${network.label}` };
+      return;
+    }
+    this.restoreFromHistory();
     this.startPolling();
   }
 
-  public static getInstance(): RegistryStore {
-    if (!RegistryStore.instance) {
-      RegistryStore.instance = new RegistryStore();
+  public static forNetwork(network: NetworkProfile): RegistryStore {
+    let store = RegistryStore.instances.get(network.name);
+    if (!store) {
+      store = new RegistryStore(network);
+      RegistryStore.instances.set(network.name, store);
     }
-    return RegistryStore.instance;
+    return store;
   }
 
   private async fetchRegisteredGateways(): Promise<Gateway[]> {
-    const response = await fetch(process.env.NEXT_PUBLIC_REGISTRY_RPC_URL!, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        method: "registry_registeredGateways",
-        id: 1,
-      }),
-    });
-
-    const data = await response.json();
-    return data.result.map(([url, address]: [string, string]) => ({
+    const result = await this.client!.request("registry_registeredGateways", []);
+    return result.map(([url, address]) => ({
       url,
       address,
     }));
   }
 
-  private async fetchFutureGateway(blocks: number): Promise<FutureGateway> {
-    const response = await fetch(process.env.NEXT_PUBLIC_REGISTRY_RPC_URL!, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        jsonrpc: "2.0",
-        method: "registry_futureGateway",
-        params: [blocks],
-        id: 1,
-      }),
-    });
+  private fetchFutureGateways(): Promise<FutureGateway[]> {
+    return fetchLookahead(this.client!, LOOKAHEAD_BLOCKS);
+  }
 
-    const data = await response.json();
-    const [blockNumber, url, address] = data.result;
-    return { blockNumber, url, address };
+  private async withRetry<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (attempt >= MAX_FETCH_ATTEMPTS) throw error;
+        const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+        console.warn(`Registry fetch failed, retrying in ${delay}ms:`, error);
+        await sleep(delay);
+      }
+    }
   }
 
-  private async measurePing(url: string): Promise<number> {
-    const start = Date.now();
+  private async probeGateway(url: string) {
+    if (this.probing.has(url)) return;
+    this.probing.add(url);
+
     try {
-      await fetch(url);
-      return Date.now() - start;
-    } catch (error) {
-      console.error(`Ping failed for ${url}:`, error);
-      return -1;
+      const result = await probeRpc(url);
+      const health = this.health.get(url);
+      // The gateway was removed while the probe was in flight
+      if (!health) return;
+
+      const syncLag = health.record(result, this.sequencerHead);
+      this.pingSamples.push(result.ok
+        ? { url, timeMs: Date.now(), ping: result.latencyMs, syncLag }
+        : { url, timeMs: Date.now(), ping: -1, error: result.error });
+      if (!result.ok) {
+        console.error(`Probe failed for ${url} (${result.error}):`, result.message);
+      }
+      this.updateHealthStats(url);
+    } finally {
+      this.probing.delete(url);
     }
   }
 
-  private updatePingStats(url: string, ping: number) {
-    if (ping === -1) return;
-    
-    const measurements = this.pingMeasurements.get(url) || [];
-    measurements.push(ping);
-    
-    // Keep only last 10 measurements
-    if (measurements.length > 10) {
-      measurements.shift();
+  private updateHealthStats(url: string) {
+    const stats = this.health.get(url)!.stats();
+    const gateway = this.data.gateways.find(gw => gw.url === url);
+    if (
+      !gateway ||
+      (Object.keys(stats) as (keyof typeof stats)[]).every(key => gateway[key] === stats[key])
+    ) {
+      return;
     }
-    
-    this.pingMeasurements.set(url, measurements);
-    
-    // Update gateway ping in data
-    this.data.gateways = this.data.gateways.map(gw => {
-      if (gw.url === url) {
-        const avg = Math.round(
-          measurements.reduce((a, b) => a + b, 0) / measurements.length
-        );
-        return { ...gw, ping: avg };
-      }
-      return gw;
-    });
+
+    this.data = {
+      ...this.data,
+      gateways: this.data.gateways.map(gw =>
+        gw.url === url ? { ...gw, ...stats } : gw
+      )
+    };
+    this.scheduleNotify();
   }
 
-  private startPingMeasurement(url: string) {
+  private startProbing(url: string) {
     // Clear existing interval if any
-    if (this.pingIntervals.has(url)) {
-      clearInterval(this.pingIntervals.get(url)!);
+    if (this.probeIntervals.has(url)) {
+      clearInterval(this.probeIntervals.get(url)!);
+    }
+    if (!this.health.has(url)) {
+      this.health.set(url, new GatewayHealth());
     }
 
-    // Start new interval
-    const interval = setInterval(async () => {
-      const ping = await this.measurePing(url);
-      this.updatePingStats(url, ping);
-    }, 1000);
+    const interval = setInterval(() => this.probeGateway(url), 1000);
+    this.probeIntervals.set(url, interval);
+  }
+
+  private startSequencerProbe() {
+    if (!this.sequencerRpcUrl) {
+      console.warn('No sequencer RPC configured, gateway sync lag is unavailable');
+      return;
+    }
 
-    this.pingIntervals.set(url, interval);
+    this.sequencerInterval = setInterval(async () => {
+      const result = await probeRpc(this.sequencerRpcUrl);
+      if (result.ok) {
+        this.sequencerHead = Math.max(this.sequencerHead ?? 0, result.blockNumber);
+      }
+    }, 1000);
   }
 
   private async updateData() {
+    if (this.updating) return;
+    this.updating = true;
+
     console.log("Updating registry data");
     try {
-      const [registered, futureResults] = await Promise.all([
+      const [registered, futureResults] = await this.withRetry(() => Promise.all([
         this.fetchRegisteredGateways(),
-        Promise.all(Array.from({ length: 60 }, (_, i) => this.fetchFutureGateway(i)))
-      ]);
+        this.fetchFutureGateways()
+      ]));
 
       futureResults.sort((a, b) => a.blockNumber - b.blockNumber);
 
-      // Start ping measurements for new gateways
+      // Start probing new gateways
       registered.forEach(gateway => {
-        if (!this.pingIntervals.has(gateway.url)) {
-          this.startPingMeasurement(gateway.url);
+        if (!this.probeIntervals.has(gateway.url)) {
+          this.startProbing(gateway.url);
         }
       });
 
-      // Clean up ping measurements for removed gateways
-      this.pingIntervals.forEach((_, url) => {
+      // Stop probing removed gateways
+      this.probeIntervals.forEach((_, url) => {
         if (!registered.find(gw => gw.url === url)) {
-          clearInterval(this.pingIntervals.get(url)!);
-          this.pingIntervals.delete(url);
-          this.pingMeasurements.delete(url);
+          clearInterval(this.probeIntervals.get(url)!);
+          this.probeIntervals.delete(url);
+          this.health.delete(url);
         }
       });
 
       this.data = {
         lastUpdated: Date.now(),
-        gateways: registered,
-        futureGateways: futureResults
+        // Carry health over, the registry only knows urls and addresses
+        gateways: registered.map(gw => ({ ...gw, ...this.health.get(gw.url)!.stats() })),
+        futureGateways: futureResults,
+        stale: false,
+        lastError: null
       };
+      this.recordHistory();
+      this.scheduleNotify();
+      registryFetches.inc({ network: this.networkName, result: "success" });
     } catch (error) {
       console.error('Failed to fetch registry data:', error);
+      registryFetches.inc({ network: this.networkName, result: "failure" });
+      // Keep serving the last good data, but say so
+      this.data = {
+        ...this.data,
+        stale: true,
+        lastError: error instanceof Error ? error.message : String(error)
+      };
+      this.scheduleNotify();
+    } finally {
+      this.updating = false;
     }
   }
 
+  private recordHistory() {
+    const timeMs = this.data.lastUpdated;
+    this.history.append([
+      { kind: "gateways", timeMs, gateways: this.data.gateways },
+      { kind: "schedule", timeMs, futureGateways: this.data.futureGateways },
+      { kind: "pings", timeMs, samples: this.pingSamples },
+    ]);
+    this.pingSamples = [];
+  }
+
+  // Serve the last known state until the first fetch after a restart lands
+  private async restoreFromHistory() {
+    try {
+      const { gateways, schedule } = await this.history.latest();
+      if (this.data.lastUpdated !== 0 || !gateways || !schedule) return;
+
+      this.data = {
+        lastUpdated: Math.min(gateways.timeMs, schedule.timeMs),
+        gateways: gateways.gateways,
+        futureGateways: schedule.futureGateways,
+        stale: true,
+        lastError: null
+      };
+      this.scheduleNotify();
+    } catch (error) {
+      console.error('Failed to restore registry history:', error);
+    }
+  }
+
+  // Coalesce bursts of ping updates into a single push to subscribers
+  private scheduleNotify() {
+    if (this.notifyTimeout) return;
+    this.notifyTimeout = setTimeout(() => {
+      this.notifyTimeout = null;
+      const data = this.getData();
+      this.listeners.forEach(listener => listener(data));
+    }, 100);
+  }
+
+  public subscribe(listener: (data: RegistryData) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
   private startPolling() {
     this.updateData(); // Initial fetch
+    this.startSequencerProbe();
     this.updateInterval = setInterval(() => {
       this.updateData();
-    }, 20000); // Poll every 20 seconds
+    }, POLL_INTERVAL_MS);
   }
 
   public getData(): RegistryData {
-    return this.data;
+    const overdue = this.data.lastUpdated > 0 && Date.now() - this.data.lastUpdated > STALE_AFTER_MS;
+    return overdue && !this.data.stale ? { ...this.data, stale: true } : this.data;
+  }
+
+  // Probe totals of the gateways currently registered
+  public getProbeCounts(): { url: string; probes: number; successes: number }[] {
+    return Array.from(this.health.entries()).map(([url, health]) => ({ url, ...health.counts() }));
   }
 
   public cleanup() {
     if (this.updateInterval) {
       clearInterval(this.updateInterval);
     }
-    // Clean up all ping intervals
-    this.pingIntervals.forEach(interval => clearInterval(interval));
-    this.pingIntervals.clear();
-    this.pingMeasurements.clear();
+    if (this.notifyTimeout) {
+      clearTimeout(this.notifyTimeout);
+    }
+    if (this.sequencerInterval) {
+      clearInterval(this.sequencerInterval);
+    }
+    this.listeners.clear();
+    // Clean up all probe intervals
+    this.probeIntervals.forEach(interval => clearInterval(interval));
+    this.probeIntervals.clear();
+    this.health.clear();
   }
 }
 
-export const registryStore = RegistryStore.getInstance(); 
\ No newline at end of file
+export function registryStoreFor(network: NetworkProfile) {
+  return RegistryStore.forNetwork(network);
+} 
\ No newline at end of file
@@ -0,0 +1,384 @@
+import { RaceResult } from "@/lib/broadcastRace";
+import { HandoffPosition } from "@/lib/handoff";
+import { InclusionBreak } from "@/lib/inclusionChecker";
+import {
+  EMPTY_SNAPSHOT,
+  LatencyRecorder,
+  LatencySnapshot,
+} from "@/lib/latencyStats";
+import { SendErrorKind } from "@/lib/nonceManager";
+import { TxTemplate, describeTemplate } from "@/lib/txTemplate";
+
+export const RUN_REPORT_VERSION = 1;
+
+// Everything recorded about a single tx sent during a run
+export type RunTx = {
+  hash: string;
+  previousHashes?: string[];
+  from: string;
+  nonce: number;
+  sendTimeMs: number;
+  error?: SendErrorKind;
+  fragBlockNumber?: number;
+  fragSeq?: number;
+  preconfLatencyMs?: number;
+  blockNumber?: number;
+  inclusionLatencyMs?: number;
+  gatewayUrl?: string;
+  template: string;
+  handoff?: HandoffPosition;
+  routing?: string;
+  routedTo?: string;
+  race?: RaceResult;
+  // Set when the receipt later moved or vanished
+  broken?: InclusionBreak;
+};
+
+export type RunTxStatus =
+  | "failed"
+  | "reorged"
+  | "dropped"
+  | "confirmed"
+  | "preconfirmed"
+  | "pending";
+
+export type RunTotals = {
+  totalTxs: number;
+  confirmedTxs: number;
+  failedTxs: number;
+  replacedTxs: number;
+  // Confirmed txs whose receipt later moved or vanished
+  brokenTxs: number;
+  preconf: LatencySnapshot;
+  inclusion: LatencySnapshot;
+};
+
+export const EMPTY_TOTALS: RunTotals = {
+  totalTxs: 0,
+  confirmedTxs: 0,
+  failedTxs: 0,
+  replacedTxs: 0,
+  brokenTxs: 0,
+  preconf: EMPTY_SNAPSHOT,
+  inclusion: EMPTY_SNAPSHOT,
+};
+
+// Settings the run was started with
+export type RunMeta = {
+  // Network profile the run was sent on, missing in older reports
+  network?: string;
+  rpcUrl: string;
+  chainId: string;
+  template: TxTemplate;
+  sendMode: string;
+  walletCount: number;
+};
+
+export type RunReport = RunMeta & {
+  version: number;
+  startedMs: number;
+  endedMs: number;
+  // Txs sent per second over the whole run
+  sendRate: number;
+  totals: RunTotals;
+  txs: RunTx[];
+};
+
+export function runTxStatus(tx: RunTx): RunTxStatus {
+  if (tx.error) return "failed";
+  if (tx.broken) return tx.broken.kind;
+  if (tx.blockNumber !== undefined) return "confirmed";
+  if (tx.preconfLatencyMs !== undefined) return "preconfirmed";
+  return "pending";
+}
+
+/**
+ * Collects every tx sent during a run, along with full-run latency
+ * distributions. Txs are fed in repeatedly as they progress; each latency
+ * is only counted the first time it shows up.
+ */
+export class RunRecorder {
+  readonly startedMs = Date.now();
+  private txs: Map<string, RunTx> = new Map();
+  private preconf = new LatencyRecorder();
+  private inclusion = new LatencyRecorder();
+
+  // Returns whether the totals changed
+  track(key: string, tx: RunTx): boolean {
+    if (tx.sendTimeMs < this.startedMs) return false;
+
+    const previous = this.txs.get(key);
+    // Breaks can be reported after the tx left the UI's recent window, so
+    // they are kept even if a later update doesn't carry them
+    this.txs.set(
+      key,
+      previous?.broken && !tx.broken ? { ...tx, broken: previous.broken } : tx
+    );
+
+    let changed =
+      previous === undefined ||
+      !!previous.error !== !!tx.error ||
+      (!previous.broken && !!tx.broken);
+    if (
+      previous?.preconfLatencyMs === undefined &&
+      tx.preconfLatencyMs !== undefined
+    ) {
+      this.preconf.record(tx.sendTimeMs, tx.preconfLatencyMs);
+      changed = true;
+    }
+    if (
+      previous?.inclusionLatencyMs === undefined &&
+      tx.inclusionLatencyMs !== undefined
+    ) {
+      this.inclusion.record(tx.sendTimeMs, tx.inclusionLatencyMs);
+      changed = true;
+    }
+    return changed;
+  }
+
+  // Returns whether the tx belongs to this run
+  markBroken(key: string, broken: InclusionBreak): boolean {
+    const tx = this.txs.get(key);
+    if (!tx) return false;
+    this.txs.set(key, { ...tx, broken });
+    return true;
+  }
+
+  totals(): RunTotals {
+    let failedTxs = 0;
+    let replacedTxs = 0;
+    let brokenTxs = 0;
+    for (const tx of this.txs.values()) {
+      if (tx.error) failedTxs++;
+      if (tx.previousHashes) replacedTxs++;
+      if (tx.broken) brokenTxs++;
+    }
+
+    return {
+      totalTxs: this.txs.size,
+      confirmedTxs: this.inclusion.size,
+      failedTxs,
+      replacedTxs,
+      brokenTxs,
+      preconf: this.preconf.snapshot(),
+      inclusion: this.inclusion.snapshot(),
+    };
+  }
+
+  report(meta: RunMeta, endedMs = Date.now()): RunReport {
+    const txs = Array.from(this.txs.values()).sort(
+      (a, b) => a.sendTimeMs - b.sendTimeMs
+    );
+    const durationS = Math.max(1, endedMs - this.startedMs) / 1000;
+
+    return {
+      version: RUN_REPORT_VERSION,
+      ...meta,
+      startedMs: this.startedMs,
+      endedMs,
+      sendRate: Math.round((txs.length / durationS) * 100) / 100,
+      totals: this.totals(),
+      txs,
+    };
+  }
+}
+
+const CSV_COLUMNS = [
+  "hash",
+  "from",
+  "nonce",
+  "status",
+  "error",
+  "sendTimeMs",
+  "fragBlockNumber",
+  "fragSeq",
+  "preconfLatencyMs",
+  "blockNumber",
+  "inclusionLatencyMs",
+  "gatewayUrl",
+  "template",
+  "blocksBeforeHandoff",
+  "blocksAfterHandoff",
+  "routing",
+  "routedTo",
+  "replacements",
+  "brokenReason",
+] as const;
+
+function csvField(value: string | number | undefined | null) {
+  if (value === undefined || value === null) return "";
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function runReportToCsv(report: RunReport) {
+  const rows = report.txs.map((tx) =>
+    [
+      tx.hash,
+      tx.from,
+      tx.nonce,
+      runTxStatus(tx),
+      tx.error,
+      tx.sendTimeMs,
+      tx.fragBlockNumber,
+      tx.fragSeq,
+      tx.preconfLatencyMs,
+      tx.blockNumber,
+      tx.inclusionLatencyMs,
+      tx.gatewayUrl,
+      tx.template,
+      tx.handoff?.blocksBefore,
+      tx.handoff?.blocksAfter,
+      tx.routing,
+      tx.routedTo,
+      tx.previousHashes?.length ?? 0,
+      tx.broken?.reason,
+    ]
+      .map(csvField)
+      .join(",")
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\n") + "\n";
+}
+
+export function describeRun(report: RunReport) {
+  const durationS = Math.round((report.endedMs - report.startedMs) / 1000);
+  return `${report.totals.totalTxs} txs over ${durationS}s, ${describeTemplate(
+    report.template
+  )}`;
+}
+
+// Field checks for uploaded reports. Each returns an error message or null,
+// naming the offending field by its path in the report
+type Check = (value: unknown, path: string) => string | null;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const number: Check = (value, path) =>
+  typeof value === "number" && Number.isFinite(value) ? null : `${path} must be a number`;
+
+const string: Check = (value, path) =>
+  typeof value === "string" ? null : `${path} must be a string`;
+
+const optional = (check: Check): Check => (value, path) =>
+  value === undefined ? null : check(value, path);
+
+const nullable = (check: Check): Check => (value, path) =>
+  value === null ? null : check(value, path);
+
+const oneOf = (...options: string[]): Check => (value, path) =>
+  options.includes(value as string) ? null : `${path} must be one of: ${options.join(", ")}`;
+
+function arrayOf(check: Check): Check {
+  return (value, path) => {
+    if (!Array.isArray(value)) return `${path} must be an array`;
+    for (const [i, item] of value.entries()) {
+      const error = check(item, `${path}[${i}]`);
+      if (error) return error;
+    }
+    return null;
+  };
+}
+
+function shape(fields: Record<string, Check>): Check {
+  return (value, path) => {
+    if (!isObject(value)) return `${path} must be an object`;
+    for (const [key, check] of Object.entries(fields)) {
+      const error = check(value[key], `${path}.${key}`);
+      if (error) return error;
+    }
+    return null;
+  };
+}
+
+const checkSnapshot = shape({
+  summary: shape(
+    Object.fromEntries(Object.keys(EMPTY_SNAPSHOT.summary).map((key) => [key, number]))
+  ),
+  bins: arrayOf(shape({ fromMs: number, toMs: number, count: number })),
+  points: arrayOf(shape({ timeMs: number, avg: number, max: number, count: number })),
+});
+
+const checkTx = shape({
+  hash: string,
+  previousHashes: optional(arrayOf(string)),
+  from: string,
+  nonce: number,
+  sendTimeMs: number,
+  error: optional(string),
+  fragBlockNumber: optional(number),
+  fragSeq: optional(number),
+  preconfLatencyMs: optional(number),
+  blockNumber: optional(number),
+  inclusionLatencyMs: optional(number),
+  gatewayUrl: optional(string),
+  template: string,
+  handoff: optional(shape({ blocksBefore: nullable(number), blocksAfter: nullable(number) })),
+  routing: optional(string),
+  routedTo: optional(string),
+  race: optional(shape({
+    winner: nullable(string),
+    acks: arrayOf(shape({ label: string, ackMs: number, error: optional(string) })),
+  })),
+  broken: optional(shape({
+    kind: oneOf("reorged", "dropped"),
+    reason: string,
+    detectedMs: number,
+  })),
+});
+
+// Everything the run page and the CSV export read, so a stored report
+// always renders
+const checkReport = shape({
+  network: optional(string),
+  rpcUrl: string,
+  chainId: string,
+  template: shape({
+    type: string,
+    payload: string,
+    calldataBytes: number,
+    abiFragment: string,
+  }),
+  sendMode: string,
+  walletCount: number,
+  startedMs: number,
+  endedMs: number,
+  sendRate: number,
+  totals: shape({
+    totalTxs: number,
+    confirmedTxs: number,
+    failedTxs: number,
+    replacedTxs: number,
+    // Reports from before reorg detection don't have the count
+    brokenTxs: optional(number),
+    preconf: checkSnapshot,
+    inclusion: checkSnapshot,
+  }),
+  txs: arrayOf(checkTx),
+});
+
+// Shape check for uploaded reports, returns an error message or null
+export function validateRunReport(body: unknown): string | null {
+  if (!isObject(body)) {
+    return "Report must be a JSON object";
+  }
+  if (body.version !== RUN_REPORT_VERSION) {
+    return `Unsupported report version, expected ${RUN_REPORT_VERSION}`;
+  }
+  return checkReport(body, "report");
+}
+
+export function downloadRunReport(report: RunReport, format: "json" | "csv") {
+  const blob =
+    format === "json"
+      ? new Blob([JSON.stringify(report, null, 2)], {
+          type: "application/json",
+        })
+      : new Blob([runReportToCsv(report)], { type: "text/csv" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `break-my-frags-run-${report.startedMs}.${format}`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,88 @@
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { RunReport, validateRunReport } from '@/lib/runReport';
+
+const RUN_ID_PATTERN = /^[0-9a-f]{16}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Stores uploaded run reports as one JSON file per run, so they can be
+ * shared through a permalink. Runs past the retention window, and the
+ * oldest ones beyond the cap, are deleted as new ones come in.
+ */
+class RunStore {
+  private static instance: RunStore;
+  private dir = process.env.RUNS_DIR || path.join(process.cwd(), "data", "runs");
+  private retentionDays = Number(process.env.RUNS_RETENTION_DAYS || 30);
+  private maxRuns = Number(process.env.RUNS_MAX_COUNT || 1000);
+
+  public static getInstance(): RunStore {
+    if (!RunStore.instance) {
+      RunStore.instance = new RunStore();
+    }
+    return RunStore.instance;
+  }
+
+  public isValidId(id: string) {
+    return RUN_ID_PATTERN.test(id);
+  }
+
+  private fileFor(id: string) {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  public async save(report: RunReport): Promise<string> {
+    const id = randomBytes(8).toString("hex");
+    await fs.mkdir(this.dir, { recursive: true });
+    // "wx" so an id collision fails instead of overwriting another run
+    await fs.writeFile(this.fileFor(id), JSON.stringify(report), { flag: "wx" });
+
+    try {
+      await this.prune();
+    } catch (error) {
+      console.error('Failed to prune run reports:', error);
+    }
+    return id;
+  }
+
+  private async prune() {
+    const files = (await fs.readdir(this.dir)).filter(file =>
+      file.endsWith(".json") && this.isValidId(file.slice(0, -".json".length))
+    );
+    const runs = await Promise.all(files.map(async file => ({
+      file,
+      mtimeMs: (await fs.stat(path.join(this.dir, file))).mtimeMs,
+    })));
+    // Newest first, so whatever is past the cap is at the end
+    runs.sort((a, b) => b.mtimeMs - a.mtimeMs);
+
+    const cutoff = Date.now() - this.retentionDays * DAY_MS;
+    for (const [i, run] of runs.entries()) {
+      if (i >= this.maxRuns || run.mtimeMs < cutoff) {
+        await fs.rm(path.join(this.dir, run.file), { force: true });
+      }
+    }
+  }
+
+  public async get(id: string): Promise<RunReport | null> {
+    // Ids end up in a file path, never accept anything but our own format
+    if (!this.isValidId(id)) return null;
+
+    try {
+      const report = JSON.parse(await fs.readFile(this.fileFor(id), "utf8"));
+      // Runs stored before uploads were fully checked may not render
+      const invalid = validateRunReport(report);
+      if (invalid) {
+        console.warn(`Ignoring invalid run report ${id}:`, invalid);
+        return null;
+      }
+      return report;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+      throw error;
+    }
+  }
+}
+
+export const runStore = RunStore.getInstance();
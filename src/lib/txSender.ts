@@ -0,0 +1,105 @@
+import { JsonRpcProvider } from "ethers";
+import { FutureGateway } from "@/types";
+import {
+  PRIVATE_RELAY_PATH,
+  RaceResult,
+  raceBroadcast,
+  raceEndpoints,
+  sendRawTransaction,
+} from "@/lib/broadcastRace";
+import { classifySendError } from "@/lib/nonceManager";
+
+// Where signed txs are broadcast: the selected RPC, every endpoint at once,
+// or straight to the gateway leading the upcoming block
+export type RoutingMode = "rpc" | "race" | "leader";
+
+export const ROUTING_LABELS: Record<RoutingMode, string> = {
+  rpc: "Selected RPC",
+  race: "Race all endpoints",
+  leader: "Current leader",
+};
+
+// How a tx was actually broadcast
+export type BroadcastRoute = {
+  // Gateway the tx was sent to in leader routing
+  routedTo?: string;
+  // Per-endpoint acks when the tx was raced across endpoints
+  race?: RaceResult;
+};
+
+export type BroadcastOptions = {
+  provider: JsonRpcProvider;
+  routing: RoutingMode;
+  // Leader of the block the tx is aimed at, if the schedule knows it
+  leader?: FutureGateway;
+  gatewayUrls: string[];
+  // Private RPC to race against, null to leave it out
+  privateUrl?: string | null;
+  // Gets every endpoint's ack once the slowest one has answered
+  onRaceSettled?: (result: RaceResult) => void;
+};
+
+function isTolerated(error: unknown) {
+  const kind = classifySendError(error);
+  return kind === "already-known" || kind === "timeout";
+}
+
+/**
+ * Broadcasts a signed tx, treating "already known" and timeouts as sent:
+ * in both cases the node may hold the tx, and the nonce check will replace
+ * it if it never lands. Any other error is thrown.
+ */
+export async function broadcastTx(
+  signed: string,
+  options: BroadcastOptions
+): Promise<BroadcastRoute> {
+  const {
+    provider,
+    routing,
+    leader,
+    privateUrl = PRIVATE_RELAY_PATH,
+  } = options;
+
+  if (routing === "leader") {
+    if (leader) {
+      try {
+        await sendRawTransaction(leader.url, signed);
+      } catch (error) {
+        if (!isTolerated(error)) throw error;
+        console.warn(`Leader returned ${classifySendError(error)}, tracking tx anyway`);
+      }
+      return { routedTo: leader.url };
+    }
+    console.warn("Leader unknown, sending through the selected RPC");
+  }
+
+  if (routing === "race") {
+    const race = raceBroadcast(
+      signed,
+      raceEndpoints(
+        provider._getConnection().url,
+        options.gatewayUrls,
+        privateUrl
+      )
+    );
+    if (options.onRaceSettled) race.settled.then(options.onRaceSettled);
+
+    const { error, ...first } = await race.first;
+    if (first.winner === null) {
+      const tolerated = first.acks.some(
+        (ack) => ack.error === "already-known" || ack.error === "timeout"
+      );
+      if (!tolerated) throw error;
+      console.warn("No endpoint accepted the tx, tracking it anyway");
+    }
+    return { race: first };
+  }
+
+  try {
+    await provider.broadcastTransaction(signed);
+  } catch (error) {
+    if (!isTolerated(error)) throw error;
+    console.warn(`Broadcast returned ${classifySendError(error)}, tracking tx anyway`);
+  }
+  return {};
+}
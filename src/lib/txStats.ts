@@ -0,0 +1,236 @@
+import { HandoffPosition, isHandoffWindow } from "@/lib/handoff";
+import { InclusionBreak } from "@/lib/inclusionChecker";
+import { RaceResult } from "@/lib/broadcastRace";
+import { SendErrorKind } from "@/lib/nonceManager";
+import { ROUTING_LABELS, RoutingMode } from "@/lib/txSender";
+
+// A sent tx as the dashboard tracks it, keyed by sender and nonce
+export type TxInfo = {
+  hash: string;
+  // Hashes of earlier attempts at this nonce that were replaced
+  previousHashes?: string[];
+  from: string;
+  nonce: number;
+  sendTimeMs: number;
+  error?: SendErrorKind;
+  // Set when the tx first shows up in a frag
+  fragBlockNumber?: number;
+  fragSeq?: number;
+  preconfLatencyMs?: number;
+  // Set when the receipt for the sealed block is available
+  blockNumber?: number;
+  inclusionLatencyMs?: number;
+  // Leader of the block the tx landed in, from the registry schedule
+  gatewayUrl?: string;
+  chainId: string;
+  // Short description of the template the tx was built from
+  template: string;
+  // Where the block being built at send time sits in the leader's slot
+  handoff?: HandoffPosition;
+  routing: RoutingMode;
+  // Gateway the tx was sent to in leader routing
+  routedTo?: string;
+  // Per-endpoint acks when the tx was raced across endpoints
+  race?: RaceResult;
+  // Set when the receipt later moved to another block or vanished
+  broken?: InclusionBreak;
+};
+
+export function latencySummary(latencies: number[]) {
+  latencies.sort((a, b) => a - b);
+  const percentile = (p: number) =>
+    latencies.length > 0 ? latencies[Math.floor(latencies.length * p)] : 0;
+
+  const p50 = percentile(0.5);
+  const p99 = percentile(0.99);
+
+  const avg =
+    latencies.length > 0
+      ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length)
+      : 0;
+
+  return { p50, p99, avg };
+}
+
+export function calculateStats(
+  confirmedTxs: Map<string, TxInfo>,
+  pendingTxs: Map<string, TxInfo>
+) {
+  const filteredTxs = [...confirmedTxs.values(), ...pendingTxs.values()]
+    .sort((a, b) => b.sendTimeMs - a.sendTimeMs)
+    .slice(0, 50); // Take only last 50 transactions
+
+  const preconf = latencySummary(
+    filteredTxs
+      .map((tx) => tx.preconfLatencyMs)
+      .filter((latency) => latency !== undefined) // Only include preconfirmed transactions
+  );
+
+  const inclusion = latencySummary(
+    filteredTxs
+      .map((tx) => tx.inclusionLatencyMs || 0)
+      .filter((latency) => latency > 0) // Only include confirmed transactions
+  );
+
+  const replacedTxs = [...confirmedTxs.values(), ...pendingTxs.values()].filter(
+    (tx) => tx.previousHashes !== undefined
+  ).length;
+
+  return {
+    totalTxs: confirmedTxs.size + pendingTxs.size,
+    confirmedTxs: confirmedTxs.size,
+    replacedTxs,
+    p50PreconfLatency: preconf.p50,
+    avgPreconfLatency: preconf.avg,
+    p50InclusionLatency: inclusion.p50,
+    avgInclusionLatency: inclusion.avg,
+  };
+}
+
+export function calculateWalletStats(
+  wallets: { address: string }[],
+  confirmedTxs: Map<string, TxInfo>,
+  pendingTxs: Map<string, TxInfo>
+) {
+  const byWallet = (txs: Map<string, TxInfo>, address: string) =>
+    new Map(Array.from(txs).filter(([, info]) => info.from === address));
+
+  return wallets.map((w) => ({
+    address: w.address,
+    ...calculateStats(
+      byWallet(confirmedTxs, w.address),
+      byWallet(pendingTxs, w.address)
+    ),
+  }));
+}
+
+export function calculateGatewayStats(confirmedTxs: Map<string, TxInfo>) {
+  const byGateway: Map<string, TxInfo[]> = new Map();
+  for (const tx of confirmedTxs.values()) {
+    if (!tx.gatewayUrl) continue;
+    byGateway.set(tx.gatewayUrl, [...(byGateway.get(tx.gatewayUrl) ?? []), tx]);
+  }
+
+  return Array.from(byGateway.entries()).map(([url, txs]) => ({
+    url,
+    count: txs.length,
+    broken: txs.filter((tx) => tx.broken).length,
+    preconf: latencySummary(
+      txs
+        .map((tx) => tx.preconfLatencyMs)
+        .filter((latency) => latency !== undefined)
+    ),
+    inclusion: latencySummary(
+      txs
+        .map((tx) => tx.inclusionLatencyMs || 0)
+        .filter((latency) => latency > 0)
+    ),
+  }));
+}
+
+// Per endpoint: how often it acked first, how fast it acked, and the
+// latencies of the txs it won
+export function calculateEndpointStats(
+  confirmedTxs: Map<string, TxInfo>,
+  pendingTxs: Map<string, TxInfo>
+) {
+  const raced = [...confirmedTxs.values(), ...pendingTxs.values()].filter(
+    (tx) => tx.race !== undefined
+  );
+  const labels = new Set(
+    raced.flatMap((tx) => tx.race!.acks.map((ack) => ack.label))
+  );
+
+  return Array.from(labels).map((label) => {
+    const acks = raced.flatMap((tx) =>
+      tx.race!.acks.filter((ack) => ack.label === label)
+    );
+    const won = raced.filter((tx) => tx.race!.winner === label);
+
+    return {
+      label,
+      sent: acks.length,
+      errors: acks.filter((ack) => ack.error).length,
+      winRate: raced.length > 0 ? (won.length / raced.length) * 100 : 0,
+      ack: latencySummary(
+        acks.filter((ack) => !ack.error).map((ack) => ack.ackMs)
+      ),
+      preconf: latencySummary(
+        won
+          .map((tx) => tx.preconfLatencyMs)
+          .filter((latency) => latency !== undefined)
+      ),
+      inclusion: latencySummary(
+        won
+          .map((tx) => tx.inclusionLatencyMs || 0)
+          .filter((latency) => latency > 0)
+      ),
+    };
+  });
+}
+
+// Send errors, txs that had to be replaced and broken inclusions all count
+// as failures
+function summarizeTxs(txs: TxInfo[]) {
+  const failed = txs.filter(
+    (tx) => tx.error || tx.previousHashes || tx.broken
+  ).length;
+
+  return {
+    count: txs.length,
+    failureRate: txs.length > 0 ? (failed / txs.length) * 100 : 0,
+    preconf: latencySummary(
+      txs
+        .map((tx) => tx.preconfLatencyMs)
+        .filter((latency) => latency !== undefined)
+    ),
+    inclusion: latencySummary(
+      txs
+        .map((tx) => tx.inclusionLatencyMs || 0)
+        .filter((latency) => latency > 0)
+    ),
+  };
+}
+
+// Compares txs sent around a leader change with those sent mid-slot
+export function calculateHandoffStats(
+  confirmedTxs: Map<string, TxInfo>,
+  pendingTxs: Map<string, TxInfo>,
+  failedTxs: Map<string, TxInfo>
+) {
+  const allTxs = [
+    ...confirmedTxs.values(),
+    ...pendingTxs.values(),
+    ...failedTxs.values(),
+  ].filter((tx) => tx.handoff !== undefined);
+
+  return [
+    { label: "Handoff window", inWindow: true },
+    { label: "Mid-slot", inWindow: false },
+  ].map(({ label, inWindow }) => ({
+    label,
+    ...summarizeTxs(
+      allTxs.filter((tx) => isHandoffWindow(tx.handoff!) === inWindow)
+    ),
+  }));
+}
+
+// Compares routing modes, only those that were actually used
+export function calculateRoutingStats(
+  confirmedTxs: Map<string, TxInfo>,
+  pendingTxs: Map<string, TxInfo>,
+  failedTxs: Map<string, TxInfo>
+) {
+  const allTxs = [
+    ...confirmedTxs.values(),
+    ...pendingTxs.values(),
+    ...failedTxs.values(),
+  ];
+
+  return (Object.keys(ROUTING_LABELS) as RoutingMode[])
+    .map((mode) => ({
+      label: ROUTING_LABELS[mode],
+      ...summarizeTxs(allTxs.filter((tx) => tx.routing === mode)),
+    }))
+    .filter((rs) => rs.count > 0);
+}
@@ -0,0 +1,214 @@
+import {
+  FunctionFragment,
+  Interface,
+  JsonRpcProvider,
+  TransactionRequest,
+  hexlify,
+  parseUnits,
+  randomBytes,
+} from "ethers";
+
+export type TxType = "legacy" | "eip1559";
+export type PayloadKind = "transfer" | "calldata" | "contract";
+
+export type TxTemplate = {
+  type: TxType;
+  // Empty means a self-transfer back to the sending wallet
+  to: string;
+  valueGwei: string;
+  payload: PayloadKind;
+  calldataBytes: number;
+  // Human-readable ABI, e.g. "function transfer(address to, uint256 amount)"
+  abiFragment: string;
+  // JSON array of arguments for the ABI fragment
+  abiArgs: string;
+  // "network" follows eth_gasPrice / eth_feeHistory, "fixed" uses the values below
+  gasSource: "network" | "fixed";
+  gasPriceGwei: string;
+  priorityFeeGwei: string;
+  // 0 means estimate it
+  gasLimit: number;
+};
+
+export type FeeSettings =
+  | { type: "legacy"; gasPrice: bigint }
+  | { type: "eip1559"; maxFeePerGas: bigint; maxPriorityFeePerGas: bigint };
+
+// Everything that doesn't change per tx, worked out once when applying a template
+export type PreparedTemplate = {
+  template: TxTemplate;
+  data: string;
+  value: bigint;
+  gasLimit: bigint;
+};
+
+export const DEFAULT_TEMPLATE: TxTemplate = {
+  type: "legacy",
+  to: "",
+  valueGwei: "1",
+  payload: "transfer",
+  calldataBytes: 128,
+  abiFragment: "",
+  abiArgs: "[]",
+  gasSource: "fixed",
+  gasPriceGwei: "0.1",
+  priorityFeeGwei: "0.01",
+  gasLimit: 0,
+};
+
+// Percentile of priority fees sampled from recent blocks
+const FEE_HISTORY_PERCENTILE = 50;
+const FEE_HISTORY_BLOCKS = 5;
+
+export function buildCalldata(template: TxTemplate): string {
+  switch (template.payload) {
+    case "transfer":
+      return "0x";
+    case "calldata":
+      return hexlify(randomBytes(template.calldataBytes));
+    case "contract": {
+      const iface = new Interface([template.abiFragment]);
+      const fragment = iface.fragments[0];
+      if (!FunctionFragment.isFragment(fragment)) {
+        throw new Error("ABI fragment must be a function");
+      }
+      return iface.encodeFunctionData(fragment, JSON.parse(template.abiArgs));
+    }
+  }
+}
+
+// Calldata tokens, where a zero byte is one token and any other byte four
+function calldataTokens(data: string) {
+  let tokens = 0;
+  for (let i = 2; i < data.length; i += 2) {
+    tokens += data.slice(i, i + 2) === "00" ? 1 : 4;
+  }
+  return tokens;
+}
+
+// Since EIP-7623 calldata-heavy txs pay at least 10 gas per calldata token,
+// whatever they execute
+function calldataFloorGas(data: string) {
+  return BigInt(21_000 + 10 * calldataTokens(data));
+}
+
+// Gas of a plain transfer to an EOA with the given calldata, where no code
+// runs and the intrinsic cost is all there is
+function intrinsicGas(data: string) {
+  const standard = BigInt(21_000 + 4 * calldataTokens(data));
+  const floor = calldataFloorGas(data);
+  return standard > floor ? standard : floor;
+}
+
+export async function prepareTemplate(
+  template: TxTemplate,
+  provider: JsonRpcProvider,
+  from: string
+): Promise<PreparedTemplate> {
+  const data = buildCalldata(template);
+  const value = parseUnits(template.valueGwei || "0", "gwei");
+
+  let gasLimit = BigInt(template.gasLimit);
+  if (gasLimit === BigInt(0)) {
+    const to = template.to || from;
+    const toEoa =
+      template.payload !== "contract" && (await provider.getCode(to)) === "0x";
+    if (toEoa) {
+      gasLimit = intrinsicGas(data);
+    } else {
+      // Nodes that predate EIP-7623 estimate below the floor
+      const estimate = await provider.estimateGas({ from, to, data, value });
+      const floor = calldataFloorGas(data);
+      gasLimit = estimate > floor ? estimate : floor;
+    }
+  }
+
+  return { template, data, value, gasLimit };
+}
+
+export async function fetchFees(
+  template: TxTemplate,
+  provider: JsonRpcProvider
+): Promise<FeeSettings> {
+  if (template.gasSource === "fixed") {
+    return template.type === "legacy"
+      ? { type: "legacy", gasPrice: parseUnits(template.gasPriceGwei, "gwei") }
+      : {
+          type: "eip1559",
+          maxFeePerGas: parseUnits(template.gasPriceGwei, "gwei"),
+          maxPriorityFeePerGas: parseUnits(template.priorityFeeGwei, "gwei"),
+        };
+  }
+
+  if (template.type === "legacy") {
+    const gasPrice: string = await provider.send("eth_gasPrice", []);
+    return { type: "legacy", gasPrice: BigInt(gasPrice) };
+  }
+
+  const history: { baseFeePerGas: string[]; reward?: string[][] } =
+    await provider.send("eth_feeHistory", [
+      FEE_HISTORY_BLOCKS,
+      "latest",
+      [FEE_HISTORY_PERCENTILE],
+    ]);
+  // The last entry is the base fee of the next block
+  const baseFee = BigInt(history.baseFeePerGas[history.baseFeePerGas.length - 1]);
+  const rewards = (history.reward ?? []).map((r) => BigInt(r[0]));
+  const priorityFee =
+    rewards.length > 0
+      ? rewards.reduce((a, b) => a + b, BigInt(0)) / BigInt(rewards.length)
+      : parseUnits(template.priorityFeeGwei, "gwei");
+
+  return {
+    type: "eip1559",
+    // Room for the base fee to double before the tx stops being includable
+    maxFeePerGas: baseFee * BigInt(2) + priorityFee,
+    maxPriorityFeePerGas: priorityFee,
+  };
+}
+
+// Scales fees by percent/100, e.g. to outbid a stuck tx
+export function bumpFees(fees: FeeSettings, percent: number): FeeSettings {
+  const bump = (fee: bigint) => (fee * BigInt(percent)) / BigInt(100);
+  return fees.type === "legacy"
+    ? { type: "legacy", gasPrice: bump(fees.gasPrice) }
+    : {
+        type: "eip1559",
+        maxFeePerGas: bump(fees.maxFeePerGas),
+        maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas),
+      };
+}
+
+export function buildTxRequest(
+  prepared: PreparedTemplate,
+  fees: FeeSettings,
+  params: { chainId: bigint; nonce: number; from: string }
+): TransactionRequest {
+  const base: TransactionRequest = {
+    chainId: params.chainId,
+    nonce: params.nonce,
+    to: prepared.template.to || params.from,
+    value: prepared.value,
+    data: prepared.data,
+    gasLimit: prepared.gasLimit,
+  };
+
+  return fees.type === "legacy"
+    ? { ...base, type: 0, gasPrice: fees.gasPrice }
+    : {
+        ...base,
+        type: 2,
+        maxFeePerGas: fees.maxFeePerGas,
+        maxPriorityFeePerGas: fees.maxPriorityFeePerGas,
+      };
+}
+
+export function describeTemplate(template: TxTemplate) {
+  const payload =
+    template.payload === "calldata"
+      ? `${template.calldataBytes}B calldata`
+      : template.payload === "contract"
+      ? template.abiFragment.replace(/^function\s+/, "").split("(")[0] + "()"
+      : "transfer";
+  return `${template.type === "legacy" ? "legacy" : "1559"} ${payload}`;
+}
@@ -0,0 +1,495 @@
+import { BaseWallet, JsonRpcProvider, keccak256 } from "ethers";
+import { FutureGateway } from "@/types";
+import { RaceResult } from "@/lib/broadcastRace";
+import { Frag } from "@/lib/fragStream";
+import { handoffPosition, routeToLeader } from "@/lib/handoff";
+import { InclusionBreak, InclusionChecker } from "@/lib/inclusionChecker";
+import { NonceManager, classifySendError } from "@/lib/nonceManager";
+import { ReceiptResolver } from "@/lib/receiptResolver";
+import { RunRecorder } from "@/lib/runReport";
+import { BroadcastRoute, RoutingMode, broadcastTx } from "@/lib/txSender";
+import { TxInfo, calculateStats } from "@/lib/txStats";
+import {
+  FeeSettings,
+  PreparedTemplate,
+  TxTemplate,
+  buildTxRequest,
+  bumpFees,
+  describeTemplate,
+} from "@/lib/txTemplate";
+
+// Recent confirmed and failed txs kept for tables and stats, each, the run
+// recorder keeps the full run
+export const MAX_RECENT_TXS = 100;
+// Upper bound on frag tx hashes remembered while waiting for a match
+const MAX_FRAG_SIGHTINGS = 10_000;
+// Blocks of leader schedule kept for attributing confirmed txs
+const MAX_SCHEDULE_BLOCKS = 1000;
+// Fees of each replacement over the previous attempt's
+const REPLACEMENT_BUMP_PERCENT = 120;
+
+type FragSighting = {
+  timeMs: number;
+  blockNumber: number;
+  seq: number;
+};
+
+// What txs are built and broadcast with, updated as the user changes it
+export type SendSettings = {
+  chainId: bigint;
+  template: TxTemplate;
+  prepared: PreparedTemplate | null;
+  fees: FeeSettings | null;
+  routing: RoutingMode;
+  // Private RPC raced in race routing, null to leave it out
+  privateUrl?: string | null;
+};
+
+export type TrackedTxs = {
+  pending: Map<string, TxInfo>;
+  confirmed: Map<string, TxInfo>;
+  // Keyed by hash, since the nonce of a failed send gets reused
+  failed: Map<string, TxInfo>;
+};
+
+// Called after every change; `runChanged` when the recorder's totals moved
+export type TrackerListener = (txs: TrackedTxs, runChanged: boolean) => void;
+
+// Each replacement has to outbid the previous attempt by at least 10%, so
+// the bump compounds rather than growing by a fixed step
+function replacementFees(fees: FeeSettings, attempts: number) {
+  let bumped = fees;
+  for (let i = 0; i <= attempts; i++) {
+    bumped = bumpFees(bumped, REPLACEMENT_BUMP_PERCENT);
+  }
+  return bumped;
+}
+
+function txHashes(info: TxInfo) {
+  return [info.hash, ...(info.previousHashes ?? [])];
+}
+
+// Txs from different wallets share nonces, so key them by sender as well
+function txKey(from: string, nonce: number) {
+  return `${from}:${nonce}`;
+}
+
+// Keeps only the most recent by send time
+function mostRecent(txs: Map<string, TxInfo>) {
+  if (txs.size <= MAX_RECENT_TXS) return txs;
+  return new Map(
+    Array.from(txs)
+      .sort(([, a], [, b]) => b.sendTimeMs - a.sendTimeMs)
+      .slice(0, MAX_RECENT_TXS)
+  );
+}
+
+function withPreconf(info: TxInfo, sighting: FragSighting): TxInfo {
+  return {
+    ...info,
+    fragBlockNumber: sighting.blockNumber,
+    fragSeq: sighting.seq,
+    preconfLatencyMs: sighting.timeMs - info.sendTimeMs,
+  };
+}
+
+/**
+ * Sends txs and follows each one through frags, receipts and the inclusion
+ * re-check, recovering from nonce gaps and stuck txs along the way. Shared
+ * by the dashboard and the headless load runner, so both measure the same
+ * way. The tx maps are replaced rather than mutated, so they can be handed
+ * straight to React state.
+ */
+export class TxTracker {
+  public settings: SendSettings | null = null;
+  // Set while a run is being recorded
+  public recorder: RunRecorder | null = null;
+
+  private provider!: JsonRpcProvider;
+  private nonceManager!: NonceManager;
+  private receiptResolver!: ReceiptResolver;
+  private inclusionChecker!: InclusionChecker;
+
+  private txs: TrackedTxs = { pending: new Map(), confirmed: new Map(), failed: new Map() };
+  private sightings: Map<string, FragSighting> = new Map();
+  // Leader per block, accumulated from the rolling lookahead window
+  private schedule: Map<number, FutureGateway> = new Map();
+  private gatewayUrls: string[] = [];
+  private head = 0;
+  private resolving = false;
+  private checkingInclusions = false;
+  private checkingNonces = false;
+  private runChanged = false;
+  private listeners: Set<TrackerListener> = new Set();
+
+  // Without a provider, set one before sending or following heads
+  constructor(provider?: JsonRpcProvider) {
+    if (provider) this.setProvider(provider);
+  }
+
+  // Receipts are per provider, txs already sent and their nonces stay tracked
+  public setProvider(provider: JsonRpcProvider) {
+    this.provider = provider;
+    if (this.nonceManager) {
+      this.nonceManager.setProvider(provider);
+    } else {
+      this.nonceManager = new NonceManager(provider);
+    }
+    this.receiptResolver = new ReceiptResolver(provider);
+    this.inclusionChecker = new InclusionChecker(provider);
+  }
+
+  public initWallet(address: string) {
+    return this.nonceManager.init(address);
+  }
+
+  public hasWallet(address: string) {
+    return this.nonceManager.has(address);
+  }
+
+  public subscribe(listener: TrackerListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  public get tracked(): TrackedTxs {
+    return this.txs;
+  }
+
+  // Txs waiting for a receipt or a deep enough re-check
+  public get outstanding() {
+    return this.txs.pending.size + this.inclusionChecker.size;
+  }
+
+  public get inFlight() {
+    return this.txs.pending.size;
+  }
+
+  // Latency over the most recent txs, as the dashboard shows it
+  public stats() {
+    return calculateStats(this.txs.confirmed, this.txs.pending);
+  }
+
+  // Forgets every tx and the schedule, e.g. when switching networks
+  public clear() {
+    this.txs = { pending: new Map(), confirmed: new Map(), failed: new Map() };
+    this.sightings.clear();
+    this.schedule.clear();
+    this.gatewayUrls = [];
+    // The nonces in flight belonged to the txs just dropped
+    this.nonceManager.clear();
+    this.inclusionChecker.clear();
+    this.emit();
+  }
+
+  private record(key: string, info: TxInfo) {
+    if (this.recorder?.track(key, info)) this.runChanged = true;
+  }
+
+  private emit() {
+    const runChanged = this.runChanged;
+    this.runChanged = false;
+    this.listeners.forEach((listener) => listener(this.txs, runChanged));
+  }
+
+  // Replaces entries of one map, recording each of them
+  private update(
+    which: keyof TrackedTxs,
+    entries: Iterable<[string, TxInfo]>,
+    removeFrom?: keyof TrackedTxs
+  ) {
+    const next = new Map(this.txs[which]);
+    const removed = removeFrom ? new Map(this.txs[removeFrom]) : null;
+    for (const [key, info] of entries) {
+      next.set(key, info);
+      removed?.delete(key);
+      this.record(key, info);
+    }
+    this.txs = { ...this.txs, [which]: which === "pending" ? next : mostRecent(next) };
+    if (removeFrom) this.txs = { ...this.txs, [removeFrom]: removed! };
+  }
+
+  private sign(w: BaseWallet, nonce: number, fees: FeeSettings, prepared: PreparedTemplate) {
+    return w.signTransaction(
+      buildTxRequest(prepared, fees, {
+        chainId: this.settings!.chainId,
+        nonce,
+        from: w.address,
+      })
+    );
+  }
+
+  private broadcast(signed: string): Promise<BroadcastRoute> {
+    const hash = keccak256(signed);
+    return broadcastTx(signed, {
+      provider: this.provider,
+      routing: this.settings!.routing,
+      leader: routeToLeader(this.schedule, this.head + 1),
+      gatewayUrls: this.gatewayUrls,
+      privateUrl: this.settings!.privateUrl,
+      onRaceSettled: (race) => this.applyRace(hash, race),
+    });
+  }
+
+  // Attaches the full race result once every endpoint has answered
+  private applyRace(hash: string, race: RaceResult) {
+    for (const which of ["pending", "confirmed"] as const) {
+      for (const [key, info] of this.txs[which]) {
+        if (info.hash !== hash) continue;
+        this.update(which, [[key, { ...info, race }]]);
+        this.emit();
+        return;
+      }
+    }
+  }
+
+  // Sends a tx at the next nonce, or at the given one to fill a gap. Only
+  // unrecoverable errors are thrown, the rest resync the nonce and move on
+  public async send(w: BaseWallet, gapNonce?: number) {
+    const settings = this.settings;
+    if (!settings?.fees) return;
+    if (!settings.prepared) {
+      throw new Error("Transaction template is not ready");
+    }
+
+    let nonce: number;
+    if (gapNonce === undefined) {
+      nonce = this.nonceManager.reserve(w.address);
+    } else {
+      nonce = gapNonce;
+      this.nonceManager.claim(w.address, nonce);
+    }
+
+    const signed = await this.sign(w, nonce, settings.fees, settings.prepared);
+    const hash = keccak256(signed);
+    const info: TxInfo = {
+      hash,
+      from: w.address,
+      nonce,
+      sendTimeMs: Date.now(),
+      chainId: settings.chainId.toString(),
+      template: describeTemplate(settings.template),
+      routing: settings.routing,
+      handoff: handoffPosition(this.schedule, this.head + 1),
+    };
+
+    let route: BroadcastRoute;
+    try {
+      route = await this.broadcast(signed);
+    } catch (error) {
+      const kind = classifySendError(error);
+      console.error(`Send failed (${kind}):`, error);
+      this.update("failed", [[hash, { ...info, error: kind }]]);
+      this.emit();
+      await this.nonceManager.release(w.address, nonce);
+      if (kind === "insufficient-funds") throw error;
+      return;
+    }
+
+    const sent = { ...info, ...route };
+    // The frag may arrive before the broadcast call returns
+    const sighting = this.sightings.get(hash.toLowerCase());
+    this.update("pending", [[txKey(w.address, nonce), sighting ? withPreconf(sent, sighting) : sent]]);
+    this.emit();
+  }
+
+  // Re-sends a stuck nonce with a higher gas price
+  private async replaceStuck(w: BaseWallet, nonce: number, attempts: number) {
+    const settings = this.settings;
+    if (!settings?.fees || !settings.prepared) return;
+    console.warn("Replacing stuck transaction:", w.address, nonce);
+
+    const signed = await this.sign(
+      w,
+      nonce,
+      replacementFees(settings.fees, attempts),
+      settings.prepared
+    );
+    const hash = keccak256(signed);
+    this.nonceManager.markReplaced(w.address, nonce);
+
+    try {
+      await this.broadcast(signed);
+    } catch (error) {
+      // e.g. the original got mined meanwhile, the receipt will show it
+      console.error(`Replacement failed (${classifySendError(error)}):`, error);
+      return;
+    }
+
+    const key = txKey(w.address, nonce);
+    const info = this.txs.pending.get(key);
+    if (!info) return;
+    this.update("pending", [[key, { ...info, hash, previousHashes: txHashes(info) }]]);
+    this.emit();
+  }
+
+  // Looks for nonce gaps and stuck txs of the wallets and recovers from them
+  public async checkNonces(wallets: BaseWallet[]) {
+    if (this.checkingNonces) return;
+    this.checkingNonces = true;
+
+    try {
+      for (const w of wallets) {
+        const { gaps, stuck } = await this.nonceManager.checkHealth(w.address);
+        for (const nonce of gaps) {
+          console.warn("Filling nonce gap:", w.address, nonce);
+          await this.send(w, nonce);
+        }
+        if (stuck) {
+          await this.replaceStuck(w, stuck.nonce, stuck.attempts);
+        }
+      }
+    } catch (error) {
+      console.error("Nonce check failed:", error);
+    } finally {
+      this.checkingNonces = false;
+    }
+  }
+
+  // Resolves pending receipts and re-checks confirmed ones at a new head
+  public onHead(head: number) {
+    this.head = head;
+    if (this.txs.pending.size > 0 && !this.resolving) {
+      this.resolving = true;
+      this.resolveReceipts(head)
+        .catch((error) => console.error("Failed to resolve receipts:", error))
+        .finally(() => {
+          this.resolving = false;
+        });
+    }
+    if (this.inclusionChecker.size > 0 && !this.checkingInclusions) {
+      this.checkingInclusions = true;
+      this.checkInclusions(head)
+        .catch((error) => console.error("Failed to re-check receipts:", error))
+        .finally(() => {
+          this.checkingInclusions = false;
+        });
+    }
+  }
+
+  private async resolveReceipts(head: number) {
+    const resolver = this.receiptResolver;
+    const pending = this.txs.pending;
+    const resolved = await resolver.resolve(
+      head,
+      Array.from(pending.values()).flatMap(txHashes)
+    );
+    // The provider was switched meanwhile, these belong to the old one
+    if (resolved.size === 0 || resolver !== this.receiptResolver) return;
+
+    const updated: Map<string, TxInfo> = new Map();
+    for (const [key, info] of pending) {
+      // Any attempt at this nonce may be the one that got included
+      const rcpt = txHashes(info)
+        .map((hash) => resolved.get(hash.toLowerCase()))
+        .find(Boolean);
+      if (!rcpt) continue;
+      this.nonceManager.markMined(info.from, info.nonce);
+      this.inclusionChecker.watch(key, rcpt);
+      const confirmed = {
+        ...info,
+        hash: rcpt.hash,
+        blockNumber: rcpt.blockNumber,
+        inclusionLatencyMs: rcpt.seenMs - info.sendTimeMs,
+        gatewayUrl: this.schedule.get(rcpt.blockNumber)?.url,
+      };
+      // Picks up frag sightings that landed while the receipts were in flight
+      const sighting = confirmed.preconfLatencyMs === undefined
+        ? txHashes(confirmed).map((hash) => this.sightings.get(hash.toLowerCase())).find(Boolean)
+        : undefined;
+      updated.set(key, sighting ? withPreconf(confirmed, sighting) : confirmed);
+    }
+    if (updated.size === 0) return;
+
+    this.update("confirmed", updated, "pending");
+    this.emit();
+  }
+
+  private async checkInclusions(head: number) {
+    const breaks = await this.inclusionChecker.check(head);
+    if (breaks.size === 0) return;
+
+    const updated: [string, TxInfo][] = [];
+    for (const [key, broken] of breaks) {
+      console.warn(`Tx ${key} ${broken.kind}: ${broken.reason}`);
+      const info = this.txs.confirmed.get(key);
+      if (info) updated.push([key, { ...info, broken }]);
+      // The tx may already be gone from the recent window, so tell the
+      // run directly
+      else this.markBroken(key, broken);
+    }
+    this.update("confirmed", updated);
+    this.emit();
+  }
+
+  private markBroken(key: string, broken: InclusionBreak) {
+    if (this.recorder?.markBroken(key, broken)) this.runChanged = true;
+  }
+
+  // Records when our txs first show up in a frag
+  public handleFrag(frag: Frag, receivedMs: number) {
+    let fresh = false;
+    for (const hash of frag.txHashes) {
+      const lower = hash.toLowerCase();
+      if (this.sightings.has(lower)) continue;
+      this.sightings.set(lower, {
+        timeMs: receivedMs,
+        blockNumber: frag.blockNumber,
+        seq: frag.seq,
+      });
+      fresh = true;
+    }
+    if (!fresh) return;
+
+    // Maps iterate in insertion order, so this drops the oldest sightings
+    for (const hash of this.sightings.keys()) {
+      if (this.sightings.size <= MAX_FRAG_SIGHTINGS) break;
+      this.sightings.delete(hash);
+    }
+
+    let changed = false;
+    for (const which of ["pending", "confirmed"] as const) {
+      const updated: [string, TxInfo][] = [];
+      for (const [key, info] of this.txs[which]) {
+        if (info.preconfLatencyMs !== undefined) continue;
+        const sighting = txHashes(info)
+          .map((hash) => this.sightings.get(hash.toLowerCase()))
+          .find(Boolean);
+        if (sighting) updated.push([key, withPreconf(info, sighting)]);
+      }
+      if (updated.length === 0) continue;
+      this.update(which, updated);
+      changed = true;
+    }
+    if (changed) this.emit();
+  }
+
+  // Takes in a registry update: the gateways to race and the upcoming leaders
+  public applySchedule(gatewayUrls: string[], futureGateways: FutureGateway[]) {
+    this.gatewayUrls = gatewayUrls;
+    if (futureGateways.length === 0) return;
+
+    for (const gw of futureGateways) {
+      this.schedule.set(gw.blockNumber, gw);
+    }
+    const newest = Math.max(...this.schedule.keys());
+    for (const blockNumber of this.schedule.keys()) {
+      if (blockNumber <= newest - MAX_SCHEDULE_BLOCKS) {
+        this.schedule.delete(blockNumber);
+      }
+    }
+
+    // Attribute txs that were confirmed before their block was scheduled
+    const updated: [string, TxInfo][] = [];
+    for (const [key, info] of this.txs.confirmed) {
+      if (info.gatewayUrl || info.blockNumber === undefined) continue;
+      const leader = this.schedule.get(info.blockNumber);
+      if (leader) updated.push([key, { ...info, gatewayUrl: leader.url }]);
+    }
+    if (updated.length === 0) return;
+    this.update("confirmed", updated);
+    this.emit();
+  }
+}
@@ -0,0 +1,133 @@
+import { Contract, HDNodeWallet, JsonRpcProvider, TransactionRequest, Wallet } from "ethers";
+
+const TRANSFER_GAS = BigInt(21_000);
+// Parent of the standard Ethereum account path, wallet i lives at .../i
+const POOL_PATH = "m/44'/60'/0'/0";
+const SWEEP_SETTLE_TIMEOUT_MS = 30_000;
+// OP-stack predeploy that prices the L1 data a tx posts
+const GAS_PRICE_ORACLE = "0x420000000000000000000000000000000000000F";
+const GAS_PRICE_ORACLE_ABI = ["function getL1Fee(bytes) view returns (uint256)"];
+// The L1 base fee can move between the estimate and inclusion
+const L1_FEE_MARGIN_PERCENT = BigInt(150);
+
+// Derives every wallet in the pool from one mnemonic, so a single phrase is
+// enough to persist and restore the pool
+export function deriveWalletPool(
+  phrase: string,
+  size: number,
+  provider: JsonRpcProvider
+): HDNodeWallet[] {
+  const root = HDNodeWallet.fromPhrase(phrase, undefined, POOL_PATH);
+  return Array.from({ length: size }, (_, i) =>
+    root.deriveChild(i).connect(provider)
+  );
+}
+
+export function createWalletPool(
+  size: number,
+  provider: JsonRpcProvider
+): HDNodeWallet[] {
+  return deriveWalletPool(Wallet.createRandom().mnemonic!.phrase, size, provider);
+}
+
+/**
+ * L1 data fee the chain charges on top of gas for this transfer, with a
+ * margin. Zero on chains without the OP-stack gas price oracle.
+ */
+async function estimateL1Fee(wallet: HDNodeWallet, tx: TransactionRequest): Promise<bigint> {
+  const provider = wallet.provider!;
+  try {
+    const signed = await wallet.signTransaction(await wallet.populateTransaction(tx));
+    const oracle = new Contract(GAS_PRICE_ORACLE, GAS_PRICE_ORACLE_ABI, provider);
+    const fee: bigint = await oracle.getL1Fee(signed);
+    return (fee * L1_FEE_MARGIN_PERCENT) / BigInt(100);
+  } catch (error) {
+    if ((await provider.getCode(GAS_PRICE_ORACLE)) !== "0x") throw error;
+    return BigInt(0);
+  }
+}
+
+/**
+ * Splits the funder's balance evenly across itself and the recipients, so a
+ * single faucet airdrop can fund the whole pool.
+ */
+export async function fanOutFunds(
+  funder: HDNodeWallet,
+  recipients: HDNodeWallet[],
+  gasPrice: bigint
+) {
+  const provider = funder.provider!;
+  const balance = await provider.getBalance(funder.address);
+  const startNonce = await provider.getTransactionCount(funder.address, "pending");
+  // Every transfer posts the same amount of L1 data, so one estimate does
+  const l1Fee = await estimateL1Fee(funder, {
+    to: recipients[0].address,
+    value: balance / BigInt(recipients.length + 1),
+    nonce: startNonce,
+    gasLimit: TRANSFER_GAS,
+    gasPrice,
+  });
+  const fees = (TRANSFER_GAS * gasPrice + l1Fee) * BigInt(recipients.length);
+  const share = (balance - fees) / BigInt(recipients.length + 1);
+  if (share <= BigInt(0)) {
+    throw new Error("Not enough balance to fund the wallet pool");
+  }
+
+  const txs = await Promise.all(
+    recipients.map((recipient, i) =>
+      funder.sendTransaction({
+        to: recipient.address,
+        value: share,
+        nonce: startNonce + i,
+        gasLimit: TRANSFER_GAS,
+        gasPrice,
+      })
+    )
+  );
+  await Promise.all(txs.map((tx) => tx.wait()));
+}
+
+// Waits until every tx the wallet has sent is mined, so its balance is final
+async function waitForSettled(wallet: HDNodeWallet) {
+  const provider = wallet.provider!;
+  const deadline = Date.now() + SWEEP_SETTLE_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const [mined, pending] = await Promise.all([
+      provider.getTransactionCount(wallet.address, "latest"),
+      provider.getTransactionCount(wallet.address, "pending"),
+    ]);
+    if (mined === pending) return mined;
+    await new Promise((resolve) => setTimeout(resolve, 1000));
+  }
+  throw new Error(`Transactions from ${wallet.address} did not settle`);
+}
+
+/**
+ * Sends whatever is left in each wallet, minus the transfer fee and the L1
+ * data fee, back to the given address. Returns the total amount swept.
+ */
+export async function sweepFunds(
+  wallets: HDNodeWallet[],
+  to: string,
+  gasPrice: bigint
+): Promise<bigint> {
+  const gasFee = TRANSFER_GAS * gasPrice;
+
+  const swept = await Promise.all(
+    wallets.map(async (wallet) => {
+      const nonce = await waitForSettled(wallet);
+      const balance = await wallet.provider!.getBalance(wallet.address);
+      if (balance <= gasFee) return BigInt(0);
+
+      const transfer = { to, nonce, gasLimit: TRANSFER_GAS, gasPrice };
+      const fee = gasFee + await estimateL1Fee(wallet, { ...transfer, value: balance - gasFee });
+      if (balance <= fee) return BigInt(0);
+
+      const tx = await wallet.sendTransaction({ ...transfer, value: balance - fee });
+      await tx.wait();
+      return balance - fee;
+    })
+  );
+
+  return swept.reduce((a, b) => a + b, BigInt(0));
+}
@@ -0,0 +1,84 @@
+import { HDNodeWallet, JsonRpcProvider, Wallet } from "ethers";
+import { deriveWalletPool } from "@/lib/walletPool";
+
+const STORAGE_KEY = "break-my-frags:wallets";
+
+type StoredPool = {
+  size: number;
+  // Exactly one of these is set, depending on whether a password was given
+  phrase?: string;
+  keystore?: string;
+};
+
+function readStored(): StoredPool | null {
+  const raw = localStorage.getItem(STORAGE_KEY);
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+}
+
+export function hasStoredWallets() {
+  return readStored() !== null;
+}
+
+export function isStoredPoolEncrypted() {
+  return readStored()?.keystore !== undefined;
+}
+
+// With a password the mnemonic is kept as an encrypted JSON keystore
+export async function saveWalletPool(wallets: HDNodeWallet[], password?: string) {
+  const phrase = wallets[0].mnemonic!.phrase;
+  const stored: StoredPool = password
+    ? {
+        size: wallets.length,
+        keystore: await Wallet.fromPhrase(phrase).encrypt(password),
+      }
+    : { size: wallets.length, phrase };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+}
+
+export async function loadWalletPool(
+  provider: JsonRpcProvider,
+  password?: string
+): Promise<HDNodeWallet[] | null> {
+  const stored = readStored();
+  if (!stored) return null;
+
+  let phrase = stored.phrase;
+  if (stored.keystore) {
+    if (!password) throw new Error("Stored wallets are encrypted");
+    const decrypted = await Wallet.fromEncryptedJson(stored.keystore, password);
+    phrase = (decrypted as HDNodeWallet).mnemonic!.phrase;
+  }
+
+  return deriveWalletPool(phrase!, stored.size, provider);
+}
+
+export function clearWalletPool() {
+  localStorage.removeItem(STORAGE_KEY);
+}
+
+// Downloads the mnemonic and every private key as a JSON file
+export function exportWalletPool(wallets: HDNodeWallet[]) {
+  const data = {
+    mnemonic: wallets[0].mnemonic?.phrase,
+    wallets: wallets.map((w) => ({
+      address: w.address,
+      path: w.path,
+      privateKey: w.privateKey,
+    })),
+  };
+
+  const blob = new Blob([JSON.stringify(data, null, 2)], {
+    type: "application/json",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `break-my-frags-wallets-${Date.now()}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
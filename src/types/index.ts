@@ -1,7 +1,14 @@
+// Why a JSON-RPC health probe of a gateway failed
+export type ProbeErrorKind = "timeout" | "network" | "http" | "rpc" | "invalid-response";
+
 export type Gateway = {
   url: string;
   address: string;
   ping?: number; // Average ping in ms
+  uptime?: number; // % of probes that succeeded since the gateway was first seen
+  errorRate?: number; // % of recent probes that failed
+  syncLag?: number; // Blocks behind the sequencer head at the last successful probe
+  lastError?: ProbeErrorKind; // Set while the latest probe is failing
 };
 
 export type FutureGateway = {
@@ -20,4 +27,38 @@ export type RegisteredGatewaysResponse = {
   jsonrpc: string;
   result: [string, string, string][];
   id: number;
-}; 
\ No newline at end of file
+};
+
+export type RegistryData = {
+  lastUpdated: number;
+  gateways: Gateway[];
+  futureGateways: FutureGateway[];
+  // Set while the data comes from history, the last fetch failed or it is overdue
+  stale: boolean;
+  lastError: string | null;
+};
+
+export type PingSample = {
+  url: string;
+  timeMs: number;
+  ping: number; // -1 when the ping failed
+  error?: ProbeErrorKind;
+  syncLag?: number;
+};
+
+export type RegistryHistoryRecord =
+  | { kind: "gateways"; timeMs: number; gateways: Gateway[] }
+  | { kind: "schedule"; timeMs: number; futureGateways: FutureGateway[] }
+  | { kind: "pings"; timeMs: number; samples: PingSample[] };
+
+// What the browser gets to know about a network profile, secrets stay server side
+export type PublicNetwork = {
+  name: string;
+  label: string;
+  chainId?: number; // Checked against the RPC when set
+  rpcUrl: string;
+  explorerUrl?: string;
+  fragWsUrl?: string;
+  hasPrivateRpc: boolean;
+  hasFaucet: boolean;
+};
\ No newline at end of file
@@ -0,0 +1,345 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { BaseWallet, Wallet, parseEther } from "ethers";
+import { MockChain, mockNetwork, silenceConsole, waitUntil } from "./mockChain";
+
+type AirdropRoute = typeof import("@/app/api/airdrop/route");
+type JobRoute = typeof import("@/app/api/airdrop/[id]/route");
+type ChallengeRoute = typeof import("@/app/api/airdrop/challenge/route");
+
+const AMOUNT = parseEther("0.01");
+
+describe("/api/airdrop", () => {
+  const configDir = mkdtempSync(path.join(tmpdir(), "airdrop-test-"));
+  // Mined on an interval, ethers counts confirmations from blocks that
+  // arrive after its receipt lookup
+  const chain = new MockChain({ mining: 200 });
+  let airdrop: AirdropRoute;
+  let jobRoute: JobRoute;
+  let challengeRoute: ChallengeRoute;
+  // Every request gets its own IP unless a test is about the IP cooldown
+  let lastIp = 0;
+  const nextIp = () => `10.0.0.${++lastIp}`;
+
+  before(async () => {
+    silenceConsole();
+    await chain.start();
+
+    // Each faucet gets its own key, two queues must not share a nonce
+    const keys = {
+      TEST_LOCAL_FUNDING_KEY: Wallet.createRandom(),
+      TEST_OPEN_FUNDING_KEY: Wallet.createRandom(),
+      TEST_WRONG_CHAIN_FUNDING_KEY: Wallet.createRandom(),
+    };
+    for (const [env, wallet] of Object.entries(keys)) {
+      process.env[env] = wallet.privateKey;
+      chain.fund(wallet.address, parseEther("10"));
+    }
+
+    const base = mockNetwork(chain, "local", { fundingKeyEnv: "TEST_LOCAL_FUNDING_KEY" });
+    const networks = [
+      base,
+      {
+        ...base,
+        name: "open",
+        label: "open",
+        fundingKeyEnv: "TEST_OPEN_FUNDING_KEY",
+        faucet: { ...base.faucet, budgetEth: "0.025", ipCooldownMs: 0, addressCooldownMs: 0 },
+      },
+      { ...base, name: "wrong-chain", label: "wrong-chain", chainId: 1, fundingKeyEnv: "TEST_WRONG_CHAIN_FUNDING_KEY" },
+      { ...base, name: "no-faucet", label: "no-faucet", fundingKeyEnv: undefined },
+    ];
+    const file = path.join(configDir, "networks.json");
+    writeFileSync(file, JSON.stringify(networks));
+    process.env.NETWORKS_FILE = file;
+
+    airdrop = await import("@/app/api/airdrop/route");
+    jobRoute = await import("@/app/api/airdrop/[id]/route");
+    challengeRoute = await import("@/app/api/airdrop/challenge/route");
+  });
+
+  after(async () => {
+    await chain.close();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  const request = (network: string, body: unknown, ip = nextIp()) =>
+    new Request(`http://localhost/api/airdrop?network=${network}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-Forwarded-For": ip },
+      body: JSON.stringify(body),
+    });
+
+  // Signs the faucet's challenge, as the UI does before asking for funds
+  const signedRecipient = async (network: string, wallet: BaseWallet = Wallet.createRandom()) => {
+    const response = await challengeRoute.POST(
+      new Request(`http://localhost/api/airdrop/challenge?network=${network}`, {
+        method: "POST",
+        body: JSON.stringify({ address: wallet.address }),
+      })
+    );
+    assert.equal(response.status, 200);
+    const { nonce, message } = await response.json();
+    return { address: wallet.address, nonce, signature: await wallet.signMessage(message) };
+  };
+
+  const requestAirdrop = async (network: string, ip = nextIp(), wallet?: BaseWallet) => {
+    const recipient = await signedRecipient(network, wallet);
+    const response = await airdrop.POST(request(network, recipient, ip));
+    return { response, body: await response.json(), address: recipient.address };
+  };
+
+  // Polls the job until the queue has finished with it. ethers may only
+  // see the confirming block at its next 4s poll
+  const settledJob = (network: string, id: string) =>
+    waitUntil(async () => {
+      const response = await jobRoute.GET(
+        new Request(`http://localhost/api/airdrop/${id}?network=${network}`),
+        { params: Promise.resolve({ id }) }
+      );
+      const job = await response.json();
+      return (job.status === "confirmed" || job.status === "failed") && job;
+    }, 10_000);
+
+  describe("network selection", () => {
+    it("answers 404 for an unknown network", async () => {
+      const get = await airdrop.GET(new Request("http://localhost/api/airdrop?network=nope"));
+      assert.equal(get.status, 404);
+      const post = await airdrop.POST(request("nope", {}));
+      assert.equal(post.status, 404);
+      assert.deepEqual(await post.json(), { error: "Unknown network" });
+    });
+
+    it("answers 503 for a network without a funding key", async () => {
+      const response = await airdrop.POST(request("no-faucet", {}));
+      assert.equal(response.status, 503);
+      assert.deepEqual(await response.json(), { error: "No faucet configured for no-faucet" });
+    });
+
+    it("tells where to send funds back", async () => {
+      const response = await airdrop.GET(new Request("http://localhost/api/airdrop?network=local"));
+      assert.equal(response.status, 200);
+      const body = await response.json();
+      assert.equal(body.fundingAddress, new Wallet(process.env.TEST_LOCAL_FUNDING_KEY!).address);
+      assert.equal(body.amount, AMOUNT.toString());
+    });
+
+    it("answers 404 for an unknown job", async () => {
+      const response = await jobRoute.GET(
+        new Request("http://localhost/api/airdrop/missing?network=local"),
+        { params: Promise.resolve({ id: "missing" }) }
+      );
+      assert.equal(response.status, 404);
+    });
+  });
+
+  describe("request validation", () => {
+    it("requires an address", async () => {
+      const response = await airdrop.POST(request("local", {}));
+      assert.equal(response.status, 400);
+      assert.deepEqual(await response.json(), { error: "Address is required" });
+    });
+
+    it("rejects a body or recipient that isn't an object with an address", async () => {
+      const nullBody = await airdrop.POST(request("local", null));
+      assert.equal(nullBody.status, 400);
+      const nullRecipient = await airdrop.POST(request("local", { recipients: [null] }));
+      assert.equal(nullRecipient.status, 400);
+      const numberAddress = await airdrop.POST(request("local", { address: 42 }));
+      assert.equal(numberAddress.status, 400);
+    });
+
+    it("rejects malformed addresses", async () => {
+      const response = await airdrop.POST(request("local", { address: "0x1234" }));
+      assert.equal(response.status, 400);
+      assert.deepEqual(await response.json(), { error: "Invalid address: 0x1234" });
+    });
+
+    it("caps the recipients per request", async () => {
+      const recipients = Array.from({ length: 51 }, () => ({
+        address: Wallet.createRandom().address,
+      }));
+      const response = await airdrop.POST(request("local", { recipients }));
+      assert.equal(response.status, 400);
+    });
+
+    it("requires a challenge", async () => {
+      const { address } = Wallet.createRandom();
+      const response = await airdrop.POST(
+        request("local", { address, nonce: "00", signature: "0x" })
+      );
+      assert.equal(response.status, 401);
+      assert.deepEqual(await response.json(), { error: "Missing or expired challenge" });
+    });
+
+    it("keeps each address's challenges apart", async () => {
+      const wallet = Wallet.createRandom();
+      const recipient = await signedRecipient("local", wallet);
+      // Someone else asking for a challenge for the same address
+      await signedRecipient("local", wallet);
+
+      const response = await airdrop.POST(request("local", recipient));
+      assert.equal(response.status, 202);
+      await settledJob("local", (await response.json()).id);
+    });
+
+    it("rejects a challenge issued for another address", async () => {
+      const recipient = await signedRecipient("local");
+      const other = Wallet.createRandom();
+      const signature = await other.signMessage("anything");
+      const response = await airdrop.POST(
+        request("local", { ...recipient, address: other.address, signature })
+      );
+      assert.equal(response.status, 401);
+      assert.deepEqual(await response.json(), { error: "Missing or expired challenge" });
+    });
+
+    it("rejects a signature from another wallet", async () => {
+      const recipient = await signedRecipient("local");
+      const signature = await Wallet.createRandom().signMessage("anything");
+      const response = await airdrop.POST(request("local", { ...recipient, signature }));
+      assert.equal(response.status, 401);
+      assert.deepEqual(await response.json(), { error: "Signature does not match address" });
+    });
+
+    it("accepts each challenge once", async () => {
+      const wallet = Wallet.createRandom();
+      const recipient = await signedRecipient("local", wallet);
+      const first = await airdrop.POST(request("local", recipient));
+      assert.equal(first.status, 202);
+      await settledJob("local", (await first.json()).id);
+
+      const replay = await airdrop.POST(request("local", recipient));
+      assert.equal(replay.status, 401);
+    });
+  });
+
+  describe("limits", () => {
+    it("funds the address and confirms the job", async () => {
+      const { response, body, address } = await requestAirdrop("local");
+      assert.equal(response.status, 202);
+      assert.equal(body.amount, AMOUNT.toString());
+      assert.deepEqual(body.recipients, [address]);
+
+      const job = await settledJob("local", body.id);
+      assert.equal(job.status, "confirmed");
+      assert.equal(job.txHashes.length, 1);
+      assert.ok(chain.isMined(job.txHashes[0]));
+      assert.equal(chain.balanceOf(address), AMOUNT);
+    });
+
+    it("limits airdrops per IP", async () => {
+      const ip = nextIp();
+      const first = await requestAirdrop("local", ip);
+      assert.equal(first.response.status, 202);
+
+      const second = await requestAirdrop("local", ip);
+      assert.equal(second.response.status, 429);
+      assert.deepEqual(second.body, { error: "Too many airdrops from this IP, try again later" });
+    });
+
+    it("only trusts the forwarded address added by the proxy", async () => {
+      const ip = nextIp();
+      const first = await requestAirdrop("local", `198.51.100.1, ${ip}`);
+      assert.equal(first.response.status, 202);
+
+      const second = await requestAirdrop("local", `198.51.100.2, ${ip}`);
+      assert.equal(second.response.status, 429);
+    });
+
+    it("limits airdrops per address", async () => {
+      const wallet = Wallet.createRandom();
+      const first = await requestAirdrop("local", nextIp(), wallet);
+      assert.equal(first.response.status, 202);
+
+      const second = await requestAirdrop("local", nextIp(), wallet);
+      assert.equal(second.response.status, 429);
+      assert.deepEqual(second.body, { error: `${wallet.address} was funded recently` });
+    });
+
+    it("stops once the budget is spent", async () => {
+      // The budget of 0.025 ETH covers two airdrops
+      const first = await requestAirdrop("open");
+      assert.equal(first.response.status, 202);
+      const second = await requestAirdrop("open");
+      assert.equal(second.response.status, 202);
+
+      const third = await requestAirdrop("open");
+      assert.equal(third.response.status, 503);
+      assert.deepEqual(third.body, { error: "Airdrop budget exhausted, try again later" });
+    });
+  });
+
+  describe("send failures", () => {
+    it("retries nonce errors", async () => {
+      chain.fail(
+        "eth_sendRawTransaction",
+        { kind: "rpc", code: -32000, message: "nonce too low" },
+        { times: 1 }
+      );
+      const { body, address } = await requestAirdrop("local");
+      const job = await settledJob("local", body.id);
+      assert.equal(job.status, "confirmed");
+      assert.equal(chain.balanceOf(address), AMOUNT);
+    });
+
+    it("fails the job and gives the limits back on other errors", async () => {
+      chain.fail(
+        "eth_sendRawTransaction",
+        { kind: "rpc", code: -32000, message: "insufficient funds for gas * price + value" },
+        { times: 1 }
+      );
+      const ip = nextIp();
+      const wallet = Wallet.createRandom();
+      const { body } = await requestAirdrop("local", ip, wallet);
+      const job = await settledJob("local", body.id);
+      assert.equal(job.status, "failed");
+      assert.match(job.error, /insufficient funds/);
+      assert.deepEqual(job.txHashes, []);
+
+      // Nothing was sent, so neither the IP nor the address is on cooldown
+      const retry = await requestAirdrop("local", ip, wallet);
+      assert.equal(retry.response.status, 202);
+      assert.equal((await settledJob("local", retry.body.id)).status, "confirmed");
+    });
+
+    it("confirms the paid part of a batch and releases the rest", async () => {
+      chain.fail(
+        "eth_sendRawTransaction",
+        { kind: "rpc", code: -32000, message: "insufficient funds for gas * price + value" },
+        { times: 1, after: 1 }
+      );
+      const [paid, unpaid] = [Wallet.createRandom(), Wallet.createRandom()];
+      const recipients = [await signedRecipient("local", paid), await signedRecipient("local", unpaid)];
+      const response = await airdrop.POST(request("local", { recipients }));
+      assert.equal(response.status, 202);
+
+      const job = await settledJob("local", (await response.json()).id);
+      assert.equal(job.status, "failed");
+      assert.match(job.error, /^Sent to 1 of 2 recipients: .*insufficient funds/);
+      assert.equal(job.txHashes.length, 1);
+      assert.ok(chain.isMined(job.txHashes[0]));
+      assert.equal(chain.balanceOf(paid.address), AMOUNT);
+
+      // Only the recipient that got nothing is off cooldown
+      const again = await requestAirdrop("local", nextIp(), paid);
+      assert.equal(again.response.status, 429);
+      const retry = await requestAirdrop("local", nextIp(), unpaid);
+      assert.equal(retry.response.status, 202);
+      assert.equal((await settledJob("local", retry.body.id)).status, "confirmed");
+    });
+
+    it("refuses to send on the wrong chain", async () => {
+      const { response, body, address } = await requestAirdrop("wrong-chain");
+      assert.equal(response.status, 202);
+
+      const job = await settledJob("wrong-chain", body.id);
+      assert.equal(job.status, "failed");
+      assert.equal(job.error, "RPC is on chain 1337, expected 1 for wrong-chain");
+      assert.equal(chain.balanceOf(address), BigInt(0));
+    });
+  });
+});
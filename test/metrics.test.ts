@@ -0,0 +1,152 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Wallet, parseEther } from "ethers";
+import { Counter, formatMetrics } from "@/lib/metrics";
+import { MockChain, mockNetwork, silenceConsole, waitUntil } from "./mockChain";
+
+// Read when the store module loads, so set before importing it
+const configDir = mkdtempSync(path.join(tmpdir(), "metrics-test-"));
+process.env.REGISTRY_HISTORY_DIR = configDir;
+process.env.REGISTRY_POLL_INTERVAL_MS = "300";
+process.env.REGISTRY_LOOKAHEAD_BLOCKS = "5";
+
+type MetricsRoute = typeof import("@/app/api/metrics/route");
+type AirdropRoute = typeof import("@/app/api/airdrop/route");
+
+describe("formatMetrics", () => {
+  it("renders help, type and one line per sample", () => {
+    const counter = new Counter("things_total", "Things by kind");
+    counter.inc({ kind: "a" });
+    counter.inc({ kind: "a" }, 2);
+    counter.inc({ kind: "b" });
+
+    assert.equal(
+      formatMetrics([counter.collect()]),
+      [
+        "# HELP frags_things_total Things by kind",
+        "# TYPE frags_things_total counter",
+        'frags_things_total{kind="a"} 3',
+        'frags_things_total{kind="b"} 1',
+        "",
+      ].join("\n")
+    );
+  });
+
+  it("escapes label values and leaves out empty label sets", () => {
+    const text = formatMetrics([
+      {
+        name: "odd",
+        help: "Odd labels",
+        type: "gauge",
+        samples: [
+          { labels: { url: 'http://a/"b"\\c\n' }, value: 1.5 },
+          { labels: {}, value: NaN },
+        ],
+      },
+    ]);
+    assert.match(text, /^frags_odd\{url="http:\/\/a\/\\"b\\"\\\\c\\n"\} 1\.5$/m);
+    assert.match(text, /^frags_odd NaN$/m);
+  });
+});
+
+describe("/api/metrics", () => {
+  const chain = new MockChain({ gateways: 2, mining: 200 });
+  const funding = Wallet.createRandom();
+  let metrics: MetricsRoute;
+  let airdrop: AirdropRoute;
+  let cleanup: () => void;
+
+  const scrape = async () => {
+    const response = await metrics.GET();
+    assert.equal(response.status, 200);
+    assert.match(response.headers.get("Content-Type")!, /^text\/plain; version=0\.0\.4/);
+    return response.text();
+  };
+
+  // Value of the sample with exactly these labels, undefined if absent
+  const sample = (text: string, name: string, labels: Record<string, string>) => {
+    const pairs = Object.entries(labels).map(([key, value]) => `${key}="${value}"`);
+    const line = text.split("\n").find((l) => l.startsWith(`frags_${name}{${pairs.join(",")}} `));
+    return line === undefined ? undefined : Number(line.split(" ").pop());
+  };
+
+  before(async () => {
+    silenceConsole();
+    await chain.start();
+    process.env.TEST_METRICS_FUNDING_KEY = funding.privateKey;
+    chain.fund(funding.address, parseEther("2.5"));
+
+    const local = mockNetwork(chain, "local", { fundingKeyEnv: "TEST_METRICS_FUNDING_KEY" });
+    const file = path.join(configDir, "networks.json");
+    writeFileSync(file, JSON.stringify([local]));
+    process.env.NETWORKS_FILE = file;
+
+    metrics = await import("@/app/api/metrics/route");
+    airdrop = await import("@/app/api/airdrop/route");
+    const { registryStoreFor } = await import("@/lib/registryStore");
+    cleanup = () => registryStoreFor(local).cleanup();
+  });
+
+  after(async () => {
+    cleanup();
+    await chain.close();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  it("exposes registry freshness and the lookahead", async () => {
+    const text = await waitUntil(async () => {
+      const text = await scrape();
+      return sample(text, "registry_fetches_total", { network: "local", result: "success" }) && text;
+    });
+    assert.ok(sample(text, "registry_data_age_seconds", { network: "local" })! < 5);
+    assert.equal(sample(text, "registry_stale", { network: "local" }), 0);
+    assert.equal(sample(text, "registry_lookahead_blocks", { network: "local" }), 5);
+  });
+
+  it("exposes the health of every gateway", async () => {
+    chain.fail("eth_blockNumber", { kind: "http", status: 503 }, { endpoint: "gateway/1" });
+    const [up, down] = [0, 1].map((i) => ({ network: "local", gateway: chain.gatewayUrl(i) }));
+
+    const text = await waitUntil(async () => {
+      const text = await scrape();
+      return sample(text, "gateway_up", up) !== undefined &&
+        sample(text, "gateway_up", down) !== undefined && text;
+    });
+    assert.equal(sample(text, "gateway_up", up), 1);
+    assert.ok(sample(text, "gateway_ping_ms", up)! >= 0);
+    assert.ok(sample(text, "gateway_probes_total", { ...up, result: "success" })! > 0);
+    assert.equal(sample(text, "gateway_up", down), 0);
+    assert.equal(sample(text, "gateway_ping_ms", down), undefined);
+    assert.equal(sample(text, "gateway_error_rate_percent", down), 100);
+    assert.equal(sample(text, "gateway_probes_total", { ...down, result: "success" }), 0);
+    chain.clearFailures();
+  });
+
+  it("counts airdrop requests and reports the funding balance", async () => {
+    const response = await airdrop.POST(
+      new Request("http://localhost/api/airdrop?network=local", {
+        method: "POST",
+        body: JSON.stringify({ address: "0x1234" }),
+      })
+    );
+    assert.equal(response.status, 400);
+
+    const text = await scrape();
+    assert.equal(sample(text, "airdrop_requests_total", { network: "local", status: "400" }), 1);
+    assert.equal(sample(text, "faucet_balance_eth", { network: "local" }), 2.5);
+  });
+
+  it("leaves out the balance while the RPC fails", async () => {
+    chain.fail("eth_getBalance", { kind: "rpc", code: -32000, message: "unavailable" });
+    // ethers answers a repeated call from its cache for a moment
+    await sleep(300);
+    const text = await scrape();
+    chain.clearFailures();
+    assert.equal(sample(text, "faucet_balance_eth", { network: "local" }), undefined);
+    assert.match(text, /^# TYPE frags_faucet_balance_eth gauge$/m);
+  });
+});
@@ -0,0 +1,701 @@
+import { IncomingMessage, Server, ServerResponse, createServer } from "node:http";
+import { AddressInfo } from "node:net";
+import { mock } from "node:test";
+import {
+  Transaction,
+  ZeroAddress,
+  ZeroHash,
+  getAddress,
+  id,
+  parseUnits,
+  toQuantity,
+} from "ethers";
+import { WebSocket, WebSocketServer } from "ws";
+import { NetworkProfile } from "@/lib/networks";
+
+/**
+ * In-process stand-in for the sequencer, its gateways, the registry and the
+ * frag stream, so the app's chain-facing code can be tested offline. One
+ * HTTP server answers on several paths:
+ *
+ *   /             sequencer JSON-RPC (the eth_* methods the app uses)
+ *   /gateway/<i>  gateway i, the same chain behind another endpoint
+ *   /registry     registry_registeredGateways and registry_futureGateway
+ *   /frags        WebSocket frag stream (eth_subscribe "frags")
+ *
+ * Block production, latency, failures and reorgs are driven by the test.
+ */
+
+export type MockFailure =
+  | { kind: "rpc"; code: number; message: string }
+  | { kind: "http"; status: number }
+  // Never answers, the client has to time out
+  | { kind: "hang" };
+
+export type MockChainOptions = {
+  chainId?: number;
+  // "instant" seals a block for every accepted tx, a number seals one on
+  // that interval in ms, "manual" only when the test calls mine()
+  mining?: "instant" | "manual" | number;
+  // Gateways served under /gateway/<i>, all registered at start
+  gateways?: number;
+};
+
+export type MockBlock = {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  txs: string[];
+};
+
+type MockTx = {
+  hash: string;
+  raw: string;
+  tx: Transaction;
+  from: string;
+  blockNumber?: number;
+  index?: number;
+};
+
+type FailureRule = {
+  method: string;
+  endpoint?: string;
+  failure: MockFailure;
+  // Infinity keeps failing until cleared
+  remaining: number;
+  // Matching calls let through before the rule starts failing
+  skip: number;
+};
+
+type RpcCall = { jsonrpc: "2.0"; id: unknown; method: string; params?: unknown[] };
+type RpcReply = { jsonrpc: "2.0"; id: unknown; result?: unknown; error?: { code: number; message: string } };
+
+const GAS_PRICE = parseUnits("1", "gwei");
+const PRIORITY_FEE = parseUnits("0.1", "gwei");
+const BASE_FEE = parseUnits("0.01", "gwei");
+const BLOCK_GAS_LIMIT = BigInt(30_000_000);
+const TX_GAS = BigInt(21_000);
+const EMPTY_BLOOM = `0x${"00".repeat(256)}`;
+const FRAG_SUBSCRIPTION = "0x1";
+
+class RpcError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+  }
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// The app logs every poll, probe and send; set TEST_LOGS=1 to see them
+export function silenceConsole() {
+  if (process.env.TEST_LOGS) return;
+  for (const level of ["log", "info", "warn", "error"] as const) {
+    mock.method(console, level, () => {});
+  }
+}
+
+type Truthy<T> = Exclude<T, false | 0 | "" | null | undefined>;
+
+// Polls `check` until it returns something truthy, for state the app
+// updates on its own timers
+export async function waitUntil<T>(
+  check: () => T | Promise<T>,
+  timeoutMs = 5000,
+  intervalMs = 50
+): Promise<Truthy<T>> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    const value = await check();
+    if (value) return value as Truthy<T>;
+    if (Date.now() > deadline) throw new Error(`Condition not met within ${timeoutMs}ms`);
+    await sleep(intervalMs);
+  }
+}
+
+// Network profile pointing every endpoint at the mock
+export function mockNetwork(
+  mock: MockChain,
+  name: string,
+  fields: Partial<NetworkProfile> = {}
+): NetworkProfile {
+  return {
+    name,
+    label: name,
+    chainId: mock.chainId,
+    rpcUrl: mock.url,
+    registryRpcUrl: mock.registryUrl,
+    fragWsUrl: mock.fragUrl,
+    faucet: {
+      amountEth: "0.01",
+      budgetEth: "1",
+      budgetWindowMs: 60 * 60 * 1000,
+      ipCooldownMs: 10 * 60 * 1000,
+      addressCooldownMs: 60 * 60 * 1000,
+    },
+    ...fields,
+  };
+}
+
+export class MockChain {
+  public readonly chainId: number;
+  // Added to every frag, to separate preconf from inclusion latency
+  public fragDelayMs = 0;
+  private server: Server;
+  private sockets: WebSocketServer;
+  private subscribers: Set<WebSocket> = new Set();
+  private url_ = "";
+  private mining: "instant" | "manual" | number;
+  private miningTimer: ReturnType<typeof setInterval> | null = null;
+
+  private blocks: MockBlock[] = [];
+  private txs: Map<string, MockTx> = new Map();
+  private mempool: MockTx[] = [];
+  private funded: Map<string, bigint> = new Map();
+  private fragSeq = 0;
+  // Bumped on every reorg so replacement blocks get new hashes
+  private fork = 0;
+
+  private gatewayCount: number;
+  private registered: number[];
+  private latency: Map<string, number> = new Map();
+  private failures: FailureRule[] = [];
+  // Every call the mock received, in order
+  public readonly calls: { endpoint: string; method: string }[] = [];
+
+  constructor(options: MockChainOptions = {}) {
+    this.chainId = options.chainId ?? 1337;
+    this.mining = options.mining ?? "instant";
+    this.gatewayCount = options.gateways ?? 0;
+    this.registered = Array.from({ length: this.gatewayCount }, (_, i) => i);
+    this.blocks.push(this.makeBlock(0, ZeroHash, []));
+
+    this.server = createServer((req, res) => this.handleHttp(req, res));
+    this.sockets = new WebSocketServer({ server: this.server, path: "/frags" });
+    this.sockets.on("connection", (socket) => this.handleSocket(socket));
+  }
+
+  public async start() {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    const { port } = this.server.address() as AddressInfo;
+    this.url_ = `http://127.0.0.1:${port}`;
+    if (typeof this.mining === "number") {
+      this.miningTimer = setInterval(() => this.mine(), this.mining);
+    }
+    return this;
+  }
+
+  public async close() {
+    if (this.miningTimer) clearInterval(this.miningTimer);
+    this.subscribers.forEach((socket) => socket.terminate());
+    this.sockets.close();
+    // Also ends requests held open by a "hang" failure
+    this.server.closeAllConnections();
+    await new Promise((resolve) => this.server.close(resolve));
+  }
+
+  public get url() {
+    return this.url_;
+  }
+
+  public get registryUrl() {
+    return `${this.url_}/registry`;
+  }
+
+  public get fragUrl() {
+    return `${this.url_.replace("http", "ws")}/frags`;
+  }
+
+  public gatewayUrl(i: number) {
+    return `${this.url_}/gateway/${i}`;
+  }
+
+  public gatewayAddress(i: number) {
+    return getAddress(`0x${(i + 1).toString(16).padStart(40, "0")}`);
+  }
+
+  // Gateways the registry reports, by index; the others keep serving
+  public setRegistered(indices: number[]) {
+    this.registered = [...indices];
+  }
+
+  public get head() {
+    return this.blocks[this.blocks.length - 1].number;
+  }
+
+  public block(n: number): MockBlock | undefined {
+    return this.blocks[n];
+  }
+
+  // Added delay before answering, per endpoint: "rpc", "registry" or "gateway/<i>"
+  public setLatency(endpoint: string, ms: number) {
+    this.latency.set(endpoint, ms);
+  }
+
+  // Makes calls of `method` fail, `times` times or until cleared, once
+  // `after` calls have gone through
+  public fail(
+    method: string,
+    failure: MockFailure,
+    { times = Infinity, after = 0, endpoint }: { times?: number; after?: number; endpoint?: string } = {}
+  ) {
+    this.failures.push({ method, endpoint, failure, remaining: times, skip: after });
+  }
+
+  public clearFailures() {
+    this.failures = [];
+  }
+
+  public countCalls(endpoint: string, method?: string) {
+    return this.calls.filter(
+      (call) => call.endpoint === endpoint && (!method || call.method === method)
+    ).length;
+  }
+
+  public fund(address: string, wei: bigint) {
+    const key = address.toLowerCase();
+    this.funded.set(key, (this.funded.get(key) ?? BigInt(0)) + wei);
+  }
+
+  public balanceOf(address: string) {
+    return this.accountState(address).balance;
+  }
+
+  public nonceOf(address: string) {
+    return this.accountState(address).nonce;
+  }
+
+  public isMined(hash: string) {
+    return this.txs.get(hash.toLowerCase())?.blockNumber !== undefined;
+  }
+
+  public get pendingCount() {
+    return this.mempool.length;
+  }
+
+  // Seals the executable mempool txs into a new block
+  public mine(): MockBlock {
+    const included: MockTx[] = [];
+    const nonces: Map<string, number> = new Map();
+    const balances: Map<string, bigint> = new Map();
+    const stateOf = (address: string) => {
+      if (!nonces.has(address)) {
+        const state = this.accountState(address);
+        nonces.set(address, state.nonce);
+        balances.set(address, state.balance);
+      }
+      return { nonce: nonces.get(address)!, balance: balances.get(address)! };
+    };
+
+    // Repeat until nothing else fits, txs can arrive out of nonce order
+    for (let progress = true; progress; ) {
+      progress = false;
+      for (const mtx of this.mempool) {
+        if (included.includes(mtx)) continue;
+        const sender = stateOf(mtx.from);
+        if (mtx.tx.nonce !== sender.nonce || this.cost(mtx.tx) > sender.balance) continue;
+
+        included.push(mtx);
+        nonces.set(mtx.from, sender.nonce + 1);
+        balances.set(mtx.from, sender.balance - this.cost(mtx.tx));
+        if (mtx.tx.to) {
+          const to = mtx.tx.to.toLowerCase();
+          balances.set(to, stateOf(to).balance + mtx.tx.value);
+        }
+        progress = true;
+      }
+    }
+
+    const number = this.head + 1;
+    const block = this.makeBlock(number, this.blocks[number - 1].hash, included.map((mtx) => mtx.hash));
+    included.forEach((mtx, index) => Object.assign(mtx, { blockNumber: number, index }));
+    this.mempool = this.mempool.filter((mtx) => !included.includes(mtx));
+    this.blocks.push(block);
+
+    this.broadcastFrag({ blockNumber: number, seq: this.fragSeq, isLast: true, txs: [] });
+    this.fragSeq = 0;
+    return block;
+  }
+
+  /**
+   * Replaces the last `depth` blocks with blocks of new hashes. Their txs
+   * are re-included at the same heights, or dropped from the chain and the
+   * mempool altogether with `drop`.
+   */
+  public reorg(depth: number, { drop = false }: { drop?: boolean } = {}) {
+    const from = this.head - depth + 1;
+    if (from < 1) throw new Error(`Can't reorg ${depth} blocks at head ${this.head}`);
+    this.fork++;
+
+    const replaced = this.blocks.splice(from);
+    for (const old of replaced) {
+      const txs = drop ? [] : old.txs;
+      if (drop) old.txs.forEach((hash) => this.txs.delete(hash));
+      this.blocks.push(this.makeBlock(old.number, this.blocks[old.number - 1].hash, txs));
+    }
+  }
+
+  private makeBlock(number: number, parentHash: string, txs: string[]): MockBlock {
+    return {
+      number,
+      hash: id(`block:${number}:${this.fork}:${txs.join(",")}`),
+      parentHash,
+      timestamp: Math.floor(Date.now() / 1000),
+      txs,
+    };
+  }
+
+  private effectiveGasPrice(tx: Transaction) {
+    if (tx.gasPrice !== null) return tx.gasPrice;
+    const tip = tx.maxPriorityFeePerGas ?? BigInt(0);
+    const max = tx.maxFeePerGas ?? BigInt(0);
+    return BASE_FEE + tip < max ? BASE_FEE + tip : max;
+  }
+
+  private cost(tx: Transaction) {
+    return TX_GAS * this.effectiveGasPrice(tx) + tx.value;
+  }
+
+  // Balance and nonce at the head, replayed from the funding and mined txs
+  private accountState(address: string) {
+    const key = address.toLowerCase();
+    let balance = this.funded.get(key) ?? BigInt(0);
+    let nonce = 0;
+    for (const block of this.blocks) {
+      for (const hash of block.txs) {
+        const { tx, from } = this.txs.get(hash)!;
+        if (from === key) {
+          balance -= this.cost(tx);
+          nonce++;
+        }
+        if (tx.to?.toLowerCase() === key) balance += tx.value;
+      }
+    }
+    return { balance, nonce };
+  }
+
+  private pendingNonce(address: string) {
+    const key = address.toLowerCase();
+    const queued = new Set(
+      this.mempool.filter((mtx) => mtx.from === key).map((mtx) => mtx.tx.nonce)
+    );
+    let nonce = this.accountState(key).nonce;
+    while (queued.has(nonce)) nonce++;
+    return nonce;
+  }
+
+  private acceptTx(raw: string): string {
+    let tx: Transaction;
+    try {
+      tx = Transaction.from(raw);
+    } catch {
+      throw new RpcError(-32602, "invalid transaction");
+    }
+    if (tx.chainId !== BigInt(this.chainId)) {
+      throw new RpcError(-32000, "invalid chain id for signer");
+    }
+
+    const hash = tx.hash!.toLowerCase();
+    const from = tx.from!.toLowerCase();
+    if (this.txs.has(hash)) throw new RpcError(-32000, "already known");
+
+    const state = this.accountState(from);
+    if (tx.nonce < state.nonce) throw new RpcError(-32000, "nonce too low");
+
+    const replaced = this.mempool.find((mtx) => mtx.from === from && mtx.tx.nonce === tx.nonce);
+    if (replaced) {
+      const oldPrice = this.effectiveGasPrice(replaced.tx);
+      if (this.effectiveGasPrice(tx) * BigInt(10) < oldPrice * BigInt(11)) {
+        throw new RpcError(-32000, "replacement transaction underpriced");
+      }
+    }
+
+    const queuedCost = this.mempool
+      .filter((mtx) => mtx.from === from && mtx !== replaced)
+      .reduce((sum, mtx) => sum + this.cost(mtx.tx), BigInt(0));
+    if (state.balance - queuedCost < this.cost(tx)) {
+      throw new RpcError(-32000, "insufficient funds for gas * price + value");
+    }
+
+    if (replaced) {
+      this.mempool = this.mempool.filter((mtx) => mtx !== replaced);
+      this.txs.delete(replaced.hash);
+    }
+    const mtx: MockTx = { hash, raw, tx, from };
+    this.txs.set(hash, mtx);
+    this.mempool.push(mtx);
+
+    const frag = { blockNumber: this.head + 1, seq: this.fragSeq++, isLast: false, txs: [raw] };
+    if (this.fragDelayMs > 0) {
+      setTimeout(() => this.broadcastFrag(frag), this.fragDelayMs);
+    } else {
+      this.broadcastFrag(frag);
+    }
+    if (this.mining === "instant") this.mine();
+    return tx.hash!;
+  }
+
+  private blockAt(tag: unknown): MockBlock | undefined {
+    if (tag === "latest" || tag === "pending" || tag === "safe" || tag === "finalized") {
+      return this.blocks[this.head];
+    }
+    if (tag === "earliest") return this.blocks[0];
+    return typeof tag === "string" ? this.blocks[Number(tag)] : undefined;
+  }
+
+  private formatTx(mtx: MockTx) {
+    const { tx } = mtx;
+    const sig = tx.signature!;
+    const block = mtx.blockNumber !== undefined ? this.blocks[mtx.blockNumber] : undefined;
+    return {
+      hash: mtx.hash,
+      type: toQuantity(tx.type ?? 0),
+      from: getAddress(mtx.from),
+      to: tx.to,
+      nonce: toQuantity(tx.nonce),
+      gas: toQuantity(tx.gasLimit),
+      gasPrice: toQuantity(this.effectiveGasPrice(tx)),
+      maxFeePerGas: tx.maxFeePerGas !== null ? toQuantity(tx.maxFeePerGas) : undefined,
+      maxPriorityFeePerGas:
+        tx.maxPriorityFeePerGas !== null ? toQuantity(tx.maxPriorityFeePerGas) : undefined,
+      input: tx.data,
+      value: toQuantity(tx.value),
+      chainId: toQuantity(tx.chainId),
+      v: toQuantity(tx.type === 0 ? sig.networkV ?? sig.v : sig.yParity),
+      r: sig.r,
+      s: sig.s,
+      yParity: tx.type === 0 ? undefined : toQuantity(sig.yParity),
+      accessList: tx.type === 0 ? undefined : [],
+      blockHash: block?.hash ?? null,
+      blockNumber: block ? toQuantity(block.number) : null,
+      transactionIndex: mtx.index !== undefined ? toQuantity(mtx.index) : null,
+    };
+  }
+
+  private formatReceipt(mtx: MockTx) {
+    const block = this.blocks[mtx.blockNumber!];
+    return {
+      transactionHash: mtx.hash,
+      transactionIndex: toQuantity(mtx.index!),
+      blockHash: block.hash,
+      blockNumber: toQuantity(block.number),
+      from: getAddress(mtx.from),
+      to: mtx.tx.to,
+      cumulativeGasUsed: toQuantity(TX_GAS * BigInt(mtx.index! + 1)),
+      gasUsed: toQuantity(TX_GAS),
+      effectiveGasPrice: toQuantity(this.effectiveGasPrice(mtx.tx)),
+      contractAddress: null,
+      logs: [],
+      logsBloom: EMPTY_BLOOM,
+      status: "0x1",
+      type: toQuantity(mtx.tx.type ?? 0),
+    };
+  }
+
+  private formatBlock(block: MockBlock, full: boolean) {
+    return {
+      number: toQuantity(block.number),
+      hash: block.hash,
+      parentHash: block.parentHash,
+      timestamp: toQuantity(block.timestamp),
+      nonce: "0x0000000000000000",
+      difficulty: "0x0",
+      gasLimit: toQuantity(BLOCK_GAS_LIMIT),
+      gasUsed: toQuantity(TX_GAS * BigInt(block.txs.length)),
+      miner: ZeroAddress,
+      extraData: "0x",
+      baseFeePerGas: toQuantity(BASE_FEE),
+      mixHash: ZeroHash,
+      stateRoot: ZeroHash,
+      receiptsRoot: ZeroHash,
+      transactions: full
+        ? block.txs.map((hash) => this.formatTx(this.txs.get(hash)!))
+        : block.txs,
+    };
+  }
+
+  private leaderOf(blockNumber: number) {
+    if (this.registered.length === 0) {
+      throw new RpcError(-32000, "no gateways registered");
+    }
+    return this.registered[blockNumber % this.registered.length];
+  }
+
+  private callRegistry(method: string, params: unknown[]): unknown {
+    switch (method) {
+      case "registry_registeredGateways":
+        return this.registered.map((i) => [this.gatewayUrl(i), this.gatewayAddress(i), "active"]);
+      case "registry_futureGateway": {
+        // Offset 0 is the block being built
+        const blockNumber = this.head + 1 + Number(params[0] ?? 0);
+        const leader = this.leaderOf(blockNumber);
+        return [blockNumber, this.gatewayUrl(leader), this.gatewayAddress(leader), "active"];
+      }
+      default:
+        throw new RpcError(-32601, "Method not found");
+    }
+  }
+
+  private callChain(method: string, params: unknown[]): unknown {
+    switch (method) {
+      case "eth_chainId":
+        return toQuantity(this.chainId);
+      case "net_version":
+        return String(this.chainId);
+      case "eth_blockNumber":
+        return toQuantity(this.head);
+      case "eth_gasPrice":
+        return toQuantity(GAS_PRICE);
+      case "eth_maxPriorityFeePerGas":
+        return toQuantity(PRIORITY_FEE);
+      case "eth_feeHistory": {
+        const count = Math.min(Number(params[0]), this.head + 1);
+        const percentiles = (params[2] as number[] | undefined) ?? [];
+        return {
+          oldestBlock: toQuantity(this.head - count + 1),
+          baseFeePerGas: Array.from({ length: count + 1 }, () => toQuantity(BASE_FEE)),
+          gasUsedRatio: Array.from({ length: count }, () => 0.5),
+          reward: Array.from({ length: count }, () => percentiles.map(() => toQuantity(PRIORITY_FEE))),
+        };
+      }
+      case "eth_estimateGas":
+        return toQuantity(TX_GAS);
+      case "eth_call":
+      case "eth_getCode":
+        return "0x";
+      case "eth_getBalance":
+        return toQuantity(this.balanceOf(String(params[0])));
+      case "eth_getTransactionCount":
+        return toQuantity(
+          params[1] === "pending"
+            ? this.pendingNonce(String(params[0]))
+            : this.nonceOf(String(params[0]))
+        );
+      case "eth_sendRawTransaction":
+        return this.acceptTx(String(params[0]));
+      case "eth_getTransactionByHash": {
+        const mtx = this.txs.get(String(params[0]).toLowerCase());
+        return mtx ? this.formatTx(mtx) : null;
+      }
+      case "eth_getTransactionReceipt": {
+        const mtx = this.txs.get(String(params[0]).toLowerCase());
+        return mtx?.blockNumber !== undefined ? this.formatReceipt(mtx) : null;
+      }
+      case "eth_getBlockReceipts": {
+        const block = this.blockAt(params[0]);
+        return block ? block.txs.map((hash) => this.formatReceipt(this.txs.get(hash)!)) : null;
+      }
+      case "eth_getBlockByNumber": {
+        const block = this.blockAt(params[0]);
+        return block ? this.formatBlock(block, Boolean(params[1])) : null;
+      }
+      case "eth_getBlockByHash": {
+        const block = this.blocks.find((b) => b.hash === params[0]);
+        return block ? this.formatBlock(block, Boolean(params[1])) : null;
+      }
+      default:
+        throw new RpcError(-32601, "Method not found");
+    }
+  }
+
+  private endpointOf(path: string) {
+    if (path === "/") return "rpc";
+    if (path === "/registry") return "registry";
+    const gateway = path.match(/^\/gateway\/(\d+)$/);
+    if (gateway && Number(gateway[1]) < this.gatewayCount) return `gateway/${gateway[1]}`;
+    return null;
+  }
+
+  // Consumes and returns the failure that applies to this call, if any
+  private takeFailure(endpoint: string, method: string) {
+    const rule = this.failures.find(
+      (r) => r.method === method && (!r.endpoint || r.endpoint === endpoint) && r.remaining > 0
+    );
+    if (!rule) return null;
+    if (rule.skip > 0) {
+      rule.skip--;
+      return null;
+    }
+    rule.remaining--;
+    return rule.failure;
+  }
+
+  private answer(endpoint: string, call: RpcCall): RpcReply {
+    const reply = { jsonrpc: "2.0" as const, id: call.id };
+    try {
+      const params = call.params ?? [];
+      const result = endpoint === "registry"
+        ? this.callRegistry(call.method, params)
+        : this.callChain(call.method, params);
+      return { ...reply, result };
+    } catch (error) {
+      if (error instanceof RpcError) {
+        return { ...reply, error: { code: error.code, message: error.message } };
+      }
+      throw error;
+    }
+  }
+
+  private async handleHttp(req: IncomingMessage, res: ServerResponse) {
+    const endpoint = this.endpointOf(req.url ?? "/");
+    if (req.method !== "POST" || !endpoint) {
+      res.writeHead(404).end();
+      return;
+    }
+
+    let body: RpcCall | RpcCall[];
+    try {
+      const chunks: Buffer[] = [];
+      for await (const chunk of req) chunks.push(chunk as Buffer);
+      body = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+    } catch {
+      res.writeHead(400).end();
+      return;
+    }
+
+    const delay = this.latency.get(endpoint) ?? 0;
+    if (delay > 0) await sleep(delay);
+
+    const calls = Array.isArray(body) ? body : [body];
+    const replies: RpcReply[] = [];
+    for (const call of calls) {
+      this.calls.push({ endpoint, method: call.method });
+      const failure = this.takeFailure(endpoint, call.method);
+      if (failure?.kind === "hang") return;
+      if (failure?.kind === "http") {
+        res.writeHead(failure.status).end();
+        return;
+      }
+      replies.push(
+        failure
+          ? { jsonrpc: "2.0", id: call.id, error: { code: failure.code, message: failure.message } }
+          : this.answer(endpoint, call)
+      );
+    }
+
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(Array.isArray(body) ? replies : replies[0]));
+  }
+
+  private handleSocket(socket: WebSocket) {
+    socket.on("message", (data) => {
+      const call = JSON.parse(String(data));
+      if (call.method !== "eth_subscribe" || call.params?.[0] !== "frags") {
+        socket.send(JSON.stringify({ jsonrpc: "2.0", id: call.id, error: { code: -32601, message: "Method not found" } }));
+        return;
+      }
+      this.subscribers.add(socket);
+      socket.send(JSON.stringify({ jsonrpc: "2.0", id: call.id, result: FRAG_SUBSCRIPTION }));
+    });
+    socket.on("close", () => this.subscribers.delete(socket));
+  }
+
+  private broadcastFrag(frag: { blockNumber: number; seq: number; isLast: boolean; txs: string[] }) {
+    const message = JSON.stringify({
+      jsonrpc: "2.0",
+      method: "eth_subscription",
+      params: { subscription: FRAG_SUBSCRIPTION, result: frag },
+    });
+    this.subscribers.forEach((socket) => socket.send(message));
+  }
+}
@@ -0,0 +1,76 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { JsonRpcProvider, Wallet, parseEther, parseUnits } from "ethers";
+import { ReceiptResolver } from "@/lib/receiptResolver";
+import { MockChain, silenceConsole } from "./mockChain";
+
+describe("ReceiptResolver", () => {
+  const chain = new MockChain({ mining: "manual" });
+  let provider: JsonRpcProvider;
+
+  before(async () => {
+    silenceConsole();
+    await chain.start();
+    provider = new JsonRpcProvider(chain.url, undefined, { staticNetwork: true });
+  });
+
+  after(async () => {
+    provider.destroy();
+    await chain.close();
+  });
+
+  const sendTx = async () => {
+    const wallet = new Wallet(Wallet.createRandom().privateKey, provider);
+    chain.fund(wallet.address, parseEther("1"));
+    const { hash } = await provider.broadcastTransaction(
+      await wallet.signTransaction({
+        to: wallet.address,
+        nonce: 0,
+        gasLimit: 21_000,
+        gasPrice: parseUnits("1", "gwei"),
+        chainId: chain.chainId,
+      })
+    );
+    return hash;
+  };
+
+  it("scans a block again when the node had no receipts for it yet", async () => {
+    const resolver = new ReceiptResolver(provider);
+    const hash = await sendTx();
+    // The node answers null for a block it hasn't got yet
+    assert.equal((await resolver.resolve(chain.head + 1, [hash])).size, 0);
+
+    chain.mine();
+    const resolved = await resolver.resolve(chain.head, [hash]);
+    assert.equal(resolved.get(hash.toLowerCase())?.blockNumber, chain.head);
+  });
+
+  it("finds txs in blocks skipped after the head jumped", async () => {
+    const resolver = new ReceiptResolver(provider);
+    await resolver.resolve(chain.head, []);
+    const hash = await sendTx();
+    const { number } = chain.mine();
+    for (let i = 0; i < 15; i++) chain.mine();
+
+    const resolved = await resolver.resolve(chain.head, [hash]);
+    assert.equal(resolved.get(hash.toLowerCase())?.blockNumber, number);
+  });
+
+  it("retries a failed receipt fetch at the same head", async () => {
+    const hash = await sendTx();
+    chain.mine();
+
+    // Fall back to fetching receipts by hash, then fail the first fetch
+    chain.fail("eth_getBlockReceipts", { kind: "rpc", code: -32601, message: "method not found" });
+    chain.fail("eth_getTransactionReceipt", { kind: "rpc", code: -32000, message: "unavailable" }, { times: 1 });
+    const resolver = new ReceiptResolver(provider);
+    await assert.rejects(resolver.resolve(chain.head, [hash]));
+    // ethers answers a repeated call from its cache for a moment
+    await sleep(300);
+
+    const resolved = await resolver.resolve(chain.head, [hash]);
+    assert.equal(resolved.get(hash.toLowerCase())?.blockNumber, chain.head);
+    chain.clearFailures();
+  });
+});
@@ -0,0 +1,167 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, afterEach, before, beforeEach, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { MockChain, mockNetwork, silenceConsole, waitUntil } from "./mockChain";
+
+// Read when the store module loads, so set before importing it
+const historyDir = mkdtempSync(path.join(tmpdir(), "registry-history-"));
+process.env.REGISTRY_HISTORY_DIR = historyDir;
+process.env.REGISTRY_POLL_INTERVAL_MS = "300";
+process.env.REGISTRY_LOOKAHEAD_BLOCKS = "5";
+
+type RegistryStoreModule = typeof import("@/lib/registryStore");
+type RegistryStore = ReturnType<RegistryStoreModule["registryStoreFor"]>;
+
+// Gateways are probed once a second
+const PROBE_INTERVAL_MS = 1000;
+
+describe("RegistryStore", () => {
+  let registryStoreFor: RegistryStoreModule["registryStoreFor"];
+  let chain: MockChain;
+  let store: RegistryStore | null = null;
+
+  // Stores are kept per network name, so every test gets its own
+  const storeFor = (name: string) => {
+    store = registryStoreFor(mockNetwork(chain, name));
+    return store;
+  };
+
+  before(async () => {
+    silenceConsole();
+    ({ registryStoreFor } = await import("@/lib/registryStore"));
+  });
+
+  beforeEach(async () => {
+    chain = await new MockChain({ gateways: 3, mining: 200 }).start();
+  });
+
+  afterEach(async () => {
+    store?.cleanup();
+    store = null;
+    await chain.close();
+  });
+
+  after(() => {
+    rmSync(historyDir, { recursive: true, force: true });
+  });
+
+  it("fetches the registered gateways and the leader schedule", async () => {
+    const registry = storeFor("fetch");
+    const data = await waitUntil(() => registry.getData().lastUpdated > 0 && registry.getData());
+
+    assert.equal(data.stale, false);
+    assert.equal(data.lastError, null);
+    assert.deepEqual(
+      data.gateways.map((gw) => [gw.url, gw.address]),
+      [0, 1, 2].map((i) => [chain.gatewayUrl(i), chain.gatewayAddress(i)])
+    );
+
+    assert.equal(data.futureGateways.length, 5);
+    data.futureGateways.forEach((gw, i) => {
+      if (i > 0) assert.equal(gw.blockNumber, data.futureGateways[i - 1].blockNumber + 1);
+      assert.equal(gw.url, chain.gatewayUrl(gw.blockNumber % 3));
+    });
+  });
+
+  it("follows the schedule as the chain advances", async () => {
+    const registry = storeFor("advance");
+    const first = await waitUntil(() => registry.getData().futureGateways[0]?.blockNumber);
+    await waitUntil(() => registry.getData().futureGateways[0].blockNumber > first);
+  });
+
+  it("records the health of every gateway from its probes", async () => {
+    chain.fail("eth_blockNumber", { kind: "http", status: 503 }, { endpoint: "gateway/2" });
+    const registry = storeFor("health");
+
+    const gateways = await waitUntil(() => {
+      const { gateways } = registry.getData();
+      return gateways.length === 3 && gateways.every((gw) => gw.uptime !== undefined) && gateways;
+    }, 5000);
+
+    for (const gw of gateways.slice(0, 2)) {
+      assert.equal(gw.uptime, 100);
+      assert.equal(gw.errorRate, 0);
+      assert.equal(gw.lastError, undefined);
+      assert.ok(gw.ping !== undefined && gw.ping >= 0);
+    }
+    const down = gateways[2];
+    assert.equal(down.uptime, 0);
+    assert.equal(down.errorRate, 100);
+    assert.equal(down.lastError, "http");
+    assert.equal(down.ping, undefined);
+  });
+
+  it("measures sync lag against the sequencer head", async () => {
+    const registry = storeFor("lag");
+    const gateways = await waitUntil(() => {
+      const { gateways } = registry.getData();
+      return gateways.length > 0 && gateways.every((gw) => gw.syncLag !== undefined) && gateways;
+    }, 5000);
+    // Gateways serve the same chain, they can only trail by blocks mined
+    // between the two probes
+    for (const gw of gateways) assert.ok(gw.syncLag! <= 10);
+  });
+
+  it("stops probing gateways that leave the registry", async () => {
+    const registry = storeFor("removed");
+    await waitUntil(() => chain.countCalls("gateway/1", "eth_blockNumber") > 0, 3000);
+
+    chain.setRegistered([0, 2]);
+    await waitUntil(() => registry.getData().gateways.length === 2, 3000);
+    assert.ok(!registry.getData().gateways.some((gw) => gw.url === chain.gatewayUrl(1)));
+
+    const removedProbes = chain.countCalls("gateway/1", "eth_blockNumber");
+    const keptProbes = chain.countCalls("gateway/0", "eth_blockNumber");
+    await sleep(PROBE_INTERVAL_MS * 2.5);
+    assert.equal(chain.countCalls("gateway/1", "eth_blockNumber"), removedProbes);
+    assert.ok(chain.countCalls("gateway/0", "eth_blockNumber") > keptProbes);
+  });
+
+  it("keeps the last good data and goes stale when the registry fails", async () => {
+    const registry = storeFor("failing");
+    await waitUntil(() => registry.getData().lastUpdated > 0);
+    const { lastUpdated } = registry.getData();
+
+    chain.fail("registry_registeredGateways", {
+      kind: "rpc",
+      code: -32000,
+      message: "registry down",
+    });
+    // Each poll retries with backoff before giving up
+    const stale = await waitUntil(() => registry.getData().stale && registry.getData(), 8000);
+    assert.match(stale.lastError!, /registry down/);
+    assert.equal(stale.gateways.length, 3);
+    assert.equal(stale.lastUpdated, lastUpdated);
+
+    chain.clearFailures();
+    await waitUntil(() => !registry.getData().stale, 3000);
+    assert.equal(registry.getData().lastError, null);
+  });
+
+  it("pushes updates to subscribers", async () => {
+    const registry = storeFor("subscribe");
+    const updates: number[] = [];
+    const unsubscribe = registry.subscribe((data) => updates.push(data.lastUpdated));
+
+    await waitUntil(() => updates.some((lastUpdated) => lastUpdated > 0));
+    unsubscribe();
+    const seen = updates.length;
+    await sleep(1000);
+    assert.equal(updates.length, seen);
+  });
+
+  it("stops every poll and probe on cleanup", async () => {
+    const registry = storeFor("cleanup");
+    await waitUntil(() => chain.countCalls("gateway/0") > 0, 3000);
+
+    registry.cleanup();
+    // Let requests already in flight land
+    await sleep(100);
+    const calls = chain.calls.length;
+    await sleep(PROBE_INTERVAL_MS * 1.5);
+    assert.equal(chain.calls.length, calls);
+  });
+});
@@ -0,0 +1,95 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { after, before, describe, it } from "node:test";
+import { Wallet, parseEther, parseUnits } from "ethers";
+import { MockChain, mockNetwork, silenceConsole } from "./mockChain";
+
+type RelayRoute = typeof import("@/app/api/relay/route");
+
+// Read when the route module loads, so set before importing it
+process.env.RELAY_TXS_PER_MINUTE = "3";
+
+describe("/api/relay", () => {
+  const configDir = mkdtempSync(path.join(tmpdir(), "relay-test-"));
+  const chain = new MockChain({ mining: "manual" });
+  const sender = Wallet.createRandom();
+  let relay: RelayRoute;
+  let nonce = 0;
+  let lastIp = 0;
+  const nextIp = () => `10.0.0.${++lastIp}`;
+
+  before(async () => {
+    silenceConsole();
+    await chain.start();
+    chain.fund(sender.address, parseEther("1"));
+
+    const file = path.join(configDir, "networks.json");
+    writeFileSync(file, JSON.stringify([mockNetwork(chain, "local", { privateRpcUrl: chain.url })]));
+    process.env.NETWORKS_FILE = file;
+    relay = await import("@/app/api/relay/route");
+  });
+
+  after(async () => {
+    await chain.close();
+    rmSync(configDir, { recursive: true, force: true });
+  });
+
+  const signedTx = () =>
+    sender.signTransaction({
+      to: sender.address,
+      nonce: nonce++,
+      gasLimit: 21_000,
+      gasPrice: parseUnits("1", "gwei"),
+      chainId: chain.chainId,
+    });
+
+  const post = async (ip: string, headers: Record<string, string> = {}) =>
+    relay.POST(
+      new Request("http://localhost/api/relay?network=local", {
+        method: "POST",
+        headers: {
+          host: "localhost",
+          "x-forwarded-for": ip,
+          "sec-fetch-site": "same-origin",
+          origin: "http://localhost",
+          ...headers,
+        },
+        body: JSON.stringify({
+          jsonrpc: "2.0",
+          method: "eth_sendRawTransaction",
+          params: [await signedTx()],
+          id: 1,
+        }),
+      })
+    );
+
+  it("relays a tx sent by the dashboard to the private RPC", async () => {
+    const response = await post(nextIp());
+    assert.equal(response.status, 200);
+    const { result } = await response.json();
+    assert.match(result, /^0x[0-9a-f]{64}$/);
+    assert.equal(chain.pendingCount, 1);
+  });
+
+  it("refuses requests from other sites", async () => {
+    const crossSite = await post(nextIp(), { "sec-fetch-site": "cross-site", origin: "https://evil.example" });
+    assert.equal(crossSite.status, 403);
+
+    // Browsers without Fetch Metadata still send the origin
+    const otherOrigin = await post(nextIp(), { "sec-fetch-site": "", origin: "https://evil.example" });
+    assert.equal(otherOrigin.status, 403);
+    assert.equal(chain.pendingCount, 1);
+  });
+
+  it("limits how many txs each address relays", async () => {
+    const ip = nextIp();
+    for (let i = 0; i < 3; i++) {
+      assert.equal((await post(ip)).status, 200);
+    }
+    const limited = await post(ip);
+    assert.equal(limited.status, 429);
+    assert.equal((await post(nextIp())).status, 200);
+  });
+});
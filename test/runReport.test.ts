@@ -0,0 +1,70 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { RunRecorder, validateRunReport } from "@/lib/runReport";
+import { DEFAULT_TEMPLATE } from "@/lib/txTemplate";
+
+function report() {
+  const recorder = new RunRecorder();
+  const tx = {
+    hash: `0x${"ab".repeat(32)}`,
+    from: "0x00000000000000000000000000000000000000a1",
+    nonce: 0,
+    sendTimeMs: recorder.startedMs + 1,
+    template: "transfer",
+  };
+  recorder.track("a:0", { ...tx, preconfLatencyMs: 40, blockNumber: 7, inclusionLatencyMs: 400 });
+  recorder.track("a:1", {
+    ...tx,
+    nonce: 1,
+    hash: `0x${"cd".repeat(32)}`,
+    handoff: { blocksBefore: null, blocksAfter: 0 },
+    race: { winner: null, acks: [{ label: "public", ackMs: 5, error: "timeout" }] },
+  });
+  return JSON.parse(JSON.stringify(recorder.report({
+    rpcUrl: "http://localhost:8545",
+    chainId: "1337",
+    template: DEFAULT_TEMPLATE,
+    sendMode: "manual",
+    walletCount: 1,
+  })));
+}
+
+describe("validateRunReport", () => {
+  it("accepts a recorded report", () => {
+    assert.equal(validateRunReport(report()), null);
+  });
+
+  it("rejects other versions", () => {
+    assert.match(validateRunReport({ ...report(), version: 2 })!, /Unsupported report version/);
+  });
+
+  it("rejects totals without latency snapshots", () => {
+    assert.equal(
+      validateRunReport({ ...report(), totals: {} }),
+      "report.totals.totalTxs must be a number"
+    );
+    const body = report();
+    delete body.totals.preconf.points;
+    assert.equal(validateRunReport(body), "report.totals.preconf.points must be an array");
+  });
+
+  it("names the first malformed tx field", () => {
+    const body = report();
+    delete body.txs[1].from;
+    assert.equal(validateRunReport(body), "report.txs[1].from must be a string");
+
+    const broken = report();
+    broken.txs[0].broken = { kind: "lost", reason: "", detectedMs: 0 };
+    assert.equal(
+      validateRunReport(broken),
+      "report.txs[0].broken.kind must be one of: reorged, dropped"
+    );
+  });
+
+  it("rejects a template the page cannot describe", () => {
+    assert.equal(
+      validateRunReport({ ...report(), template: "transfer" }),
+      "report.template must be an object"
+    );
+  });
+});
@@ -0,0 +1,210 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import {
+  TxInfo,
+  calculateEndpointStats,
+  calculateGatewayStats,
+  calculateRoutingStats,
+  calculateStats,
+  calculateWalletStats,
+  latencySummary,
+} from "@/lib/txStats";
+
+const ALICE = "0x00000000000000000000000000000000000000a1";
+const BOB = "0x00000000000000000000000000000000000000b0";
+
+function tx(nonce: number, fields: Partial<TxInfo> = {}): TxInfo {
+  return {
+    hash: `0x${nonce.toString(16).padStart(64, "0")}`,
+    from: ALICE,
+    nonce,
+    sendTimeMs: 1000 + nonce,
+    chainId: "1337",
+    template: "transfer",
+    routing: "rpc",
+    ...fields,
+  };
+}
+
+function byKey(txs: TxInfo[]) {
+  return new Map(txs.map((info) => [`${info.from}:${info.nonce}`, info]));
+}
+
+describe("latencySummary", () => {
+  it("is all zeros without samples", () => {
+    assert.deepEqual(latencySummary([]), { p50: 0, p99: 0, avg: 0 });
+  });
+
+  it("takes percentiles from the sorted samples", () => {
+    const samples = Array.from({ length: 100 }, (_, i) => 100 - i);
+    assert.deepEqual(latencySummary(samples), { p50: 51, p99: 100, avg: 51 });
+  });
+
+  it("rounds the average", () => {
+    assert.equal(latencySummary([1, 2]).avg, 2);
+    assert.equal(latencySummary([10, 11, 11]).avg, 11);
+  });
+});
+
+describe("calculateStats", () => {
+  it("counts confirmed, pending and replaced txs", () => {
+    const confirmed = byKey([
+      tx(0, { inclusionLatencyMs: 300 }),
+      tx(1, { inclusionLatencyMs: 500, previousHashes: ["0xold"] }),
+    ]);
+    const pending = byKey([tx(2), tx(3, { previousHashes: ["0xa", "0xb"] })]);
+
+    const stats = calculateStats(confirmed, pending);
+    assert.equal(stats.totalTxs, 4);
+    assert.equal(stats.confirmedTxs, 2);
+    assert.equal(stats.replacedTxs, 2);
+  });
+
+  it("only averages txs that reached each stage", () => {
+    const confirmed = byKey([
+      tx(0, { preconfLatencyMs: 40, inclusionLatencyMs: 400 }),
+      tx(1, { preconfLatencyMs: 60, inclusionLatencyMs: 600 }),
+    ]);
+    const pending = byKey([tx(2, { preconfLatencyMs: 80 }), tx(3)]);
+
+    const stats = calculateStats(confirmed, pending);
+    assert.equal(stats.avgPreconfLatency, 60);
+    assert.equal(stats.p50PreconfLatency, 60);
+    assert.equal(stats.avgInclusionLatency, 500);
+    assert.equal(stats.p50InclusionLatency, 600);
+  });
+
+  it("keeps a zero preconf latency but drops a zero inclusion latency", () => {
+    const stats = calculateStats(
+      byKey([tx(0, { preconfLatencyMs: 0, inclusionLatencyMs: 0 })]),
+      new Map()
+    );
+    assert.equal(stats.avgPreconfLatency, 0);
+    assert.equal(stats.avgInclusionLatency, 0);
+
+    const mixed = calculateStats(
+      byKey([
+        tx(0, { preconfLatencyMs: 0, inclusionLatencyMs: 0 }),
+        tx(1, { preconfLatencyMs: 100, inclusionLatencyMs: 100 }),
+      ]),
+      new Map()
+    );
+    assert.equal(mixed.avgPreconfLatency, 50);
+    assert.equal(mixed.avgInclusionLatency, 100);
+  });
+
+  it("computes latencies over the 50 most recent txs only", () => {
+    // The 50 oldest are slow, the 50 newest fast
+    const txs = Array.from({ length: 100 }, (_, i) =>
+      tx(i, { inclusionLatencyMs: i < 50 ? 10_000 : 100 })
+    );
+    const stats = calculateStats(byKey(txs), new Map());
+    assert.equal(stats.totalTxs, 100);
+    assert.equal(stats.avgInclusionLatency, 100);
+  });
+});
+
+describe("calculateWalletStats", () => {
+  it("splits txs by sender", () => {
+    const confirmed = byKey([
+      tx(0, { inclusionLatencyMs: 100 }),
+      tx(0, { from: BOB, inclusionLatencyMs: 300 }),
+    ]);
+    const pending = byKey([tx(1, { from: BOB })]);
+
+    const [alice, bob] = calculateWalletStats(
+      [{ address: ALICE }, { address: BOB }],
+      confirmed,
+      pending
+    );
+    assert.equal(alice.totalTxs, 1);
+    assert.equal(alice.avgInclusionLatency, 100);
+    assert.equal(bob.totalTxs, 2);
+    assert.equal(bob.confirmedTxs, 1);
+    assert.equal(bob.avgInclusionLatency, 300);
+  });
+});
+
+describe("calculateGatewayStats", () => {
+  it("groups confirmed txs by the gateway that led their block", () => {
+    const confirmed = byKey([
+      tx(0, { gatewayUrl: "http://gw-a", inclusionLatencyMs: 200 }),
+      tx(1, {
+        gatewayUrl: "http://gw-a",
+        inclusionLatencyMs: 400,
+        broken: { kind: "reorged", reason: "block 1 -> 2", detectedMs: 0 },
+      }),
+      tx(2, { gatewayUrl: "http://gw-b", preconfLatencyMs: 20 }),
+      tx(3),
+    ]);
+
+    const stats = calculateGatewayStats(confirmed);
+    assert.deepEqual(
+      stats.map(({ url, count, broken }) => ({ url, count, broken })),
+      [
+        { url: "http://gw-a", count: 2, broken: 1 },
+        { url: "http://gw-b", count: 1, broken: 0 },
+      ]
+    );
+    assert.equal(stats[0].inclusion.avg, 300);
+    assert.equal(stats[1].preconf.avg, 20);
+  });
+});
+
+describe("calculateEndpointStats", () => {
+  it("credits wins and acks to each endpoint", () => {
+    const race = (winner: string | null, publicMs: number, gatewayError?: boolean) => ({
+      winner,
+      acks: [
+        { label: "public", ackMs: publicMs },
+        gatewayError
+          ? { label: "gateway", ackMs: 5, error: "timeout" as const }
+          : { label: "gateway", ackMs: 5 },
+      ],
+    });
+    const confirmed = byKey([
+      tx(0, { race: race("gateway", 30), inclusionLatencyMs: 100 }),
+      tx(1, { race: race("gateway", 50), inclusionLatencyMs: 300 }),
+      tx(2, { race: race("public", 10, true), inclusionLatencyMs: 900 }),
+    ]);
+    const pending = byKey([tx(3), tx(4, { race: race(null, 70, true) })]);
+
+    const stats = new Map(
+      calculateEndpointStats(confirmed, pending).map((s) => [s.label, s])
+    );
+    const gateway = stats.get("gateway")!;
+    assert.equal(gateway.sent, 4);
+    assert.equal(gateway.errors, 2);
+    assert.equal(gateway.winRate, 50);
+    assert.equal(gateway.inclusion.avg, 200);
+
+    const pub = stats.get("public")!;
+    assert.equal(pub.sent, 4);
+    assert.equal(pub.errors, 0);
+    assert.equal(pub.winRate, 25);
+    assert.equal(pub.ack.avg, 40);
+    assert.equal(pub.inclusion.avg, 900);
+  });
+});
+
+describe("calculateRoutingStats", () => {
+  it("counts errors, replacements and broken inclusions as failures", () => {
+    const confirmed = byKey([
+      tx(0),
+      tx(1, { previousHashes: ["0xold"] }),
+      tx(2, { broken: { kind: "dropped", reason: "gone", detectedMs: 0 } }),
+      tx(3),
+      tx(4, { routing: "leader", inclusionLatencyMs: 100 }),
+    ]);
+    const failed = byKey([tx(5, { routing: "leader", error: "nonce-too-low" })]);
+
+    const stats = calculateRoutingStats(confirmed, new Map(), failed);
+    assert.deepEqual(
+      stats.map(({ label, count, failureRate }) => ({ label, count, failureRate })),
+      [
+        { label: "Selected RPC", count: 4, failureRate: 50 },
+        { label: "Current leader", count: 2, failureRate: 50 },
+      ]
+    );
+  });
+});
@@ -0,0 +1,166 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it, mock } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { JsonRpcProvider, Wallet, parseEther } from "ethers";
+import { RunRecorder } from "@/lib/runReport";
+import { DEFAULT_TEMPLATE, fetchFees, prepareTemplate } from "@/lib/txTemplate";
+import { TxTracker } from "@/lib/txTracker";
+import { MockChain, silenceConsole, waitUntil } from "./mockChain";
+
+// Past the nonce manager's stuck threshold
+const STUCK_MS = 11_000;
+
+describe("TxTracker", () => {
+  const chain = new MockChain({ mining: "manual" });
+  let provider: JsonRpcProvider;
+  let wallet: Wallet;
+  let tracker: TxTracker;
+
+  before(async () => {
+    silenceConsole();
+    await chain.start();
+    provider = new JsonRpcProvider(chain.url, undefined, { staticNetwork: true });
+    wallet = new Wallet(Wallet.createRandom().privateKey, provider);
+    chain.fund(wallet.address, parseEther("1"));
+
+    tracker = new TxTracker(provider);
+    await tracker.initWallet(wallet.address);
+    tracker.settings = {
+      chainId: BigInt(chain.chainId),
+      template: DEFAULT_TEMPLATE,
+      prepared: await prepareTemplate(DEFAULT_TEMPLATE, provider, wallet.address),
+      fees: await fetchFees(DEFAULT_TEMPLATE, provider),
+      routing: "rpc",
+    };
+  });
+
+  after(async () => {
+    provider.destroy();
+    await chain.close();
+  });
+
+  // Mines the pending txs and waits until none are left
+  const confirmAll = async () => {
+    chain.mine();
+    tracker.onHead(chain.head);
+    await waitUntil(() => {
+      tracker.onHead(chain.head);
+      return tracker.inFlight === 0;
+    });
+  };
+
+  it("follows a tx through its frag and receipt into the run", async () => {
+    const recorder = new RunRecorder();
+    tracker.recorder = recorder;
+    const updates: boolean[] = [];
+    const unsubscribe = tracker.subscribe((_, runChanged) => updates.push(runChanged));
+
+    await tracker.send(wallet);
+    const [[key, sent]] = tracker.tracked.pending;
+    tracker.handleFrag(
+      { blockNumber: chain.head + 1, seq: 0, isLast: false, txHashes: [sent.hash.toUpperCase()] },
+      sent.sendTimeMs + 50
+    );
+    await confirmAll();
+    unsubscribe();
+
+    const confirmed = tracker.tracked.confirmed.get(key)!;
+    assert.equal(confirmed.hash, sent.hash);
+    assert.equal(confirmed.blockNumber, chain.head);
+    assert.equal(confirmed.preconfLatencyMs, 50);
+    assert.ok(confirmed.inclusionLatencyMs! >= 0);
+    assert.ok(updates.includes(true));
+
+    const totals = recorder.totals();
+    assert.equal(totals.totalTxs, 1);
+    assert.equal(totals.confirmedTxs, 1);
+    assert.equal(totals.preconf.summary.count, 1);
+    tracker.recorder = null;
+  });
+
+  it("replaces a stuck tx and confirms the replacement", async () => {
+    await tracker.send(wallet);
+    const [[key, stuck]] = tracker.tracked.pending;
+
+    const now = Date.now();
+    mock.method(Date, "now", () => now + STUCK_MS);
+    try {
+      await tracker.checkNonces([wallet]);
+    } finally {
+      mock.restoreAll();
+      silenceConsole();
+    }
+    const replaced = tracker.tracked.pending.get(key)!;
+    assert.notEqual(replaced.hash, stuck.hash);
+    assert.deepEqual(replaced.previousHashes, [stuck.hash]);
+
+    await confirmAll();
+    const confirmed = tracker.tracked.confirmed.get(key)!;
+    assert.equal(confirmed.hash, replaced.hash);
+    assert.ok(chain.isMined(replaced.hash));
+    assert.ok(!chain.isMined(stuck.hash));
+  });
+
+  it("still replaces a stuck tx after the wallet and provider were set up again", async () => {
+    // ethers answers a repeated nonce lookup from its cache for a moment
+    await sleep(300);
+    await tracker.send(wallet);
+    const [[key, stuck]] = tracker.tracked.pending;
+    await tracker.initWallet(wallet.address);
+    tracker.setProvider(provider);
+
+    const now = Date.now();
+    mock.method(Date, "now", () => now + STUCK_MS);
+    try {
+      await tracker.checkNonces([wallet]);
+    } finally {
+      mock.restoreAll();
+      silenceConsole();
+    }
+    assert.deepEqual(tracker.tracked.pending.get(key)!.previousHashes, [stuck.hash]);
+    await confirmAll();
+  });
+
+  it("keeps outbidding the previous attempt on every replacement", async () => {
+    // ethers answers a repeated nonce lookup from its cache for a moment
+    await sleep(300);
+    await tracker.send(wallet);
+    const [[key]] = tracker.tracked.pending;
+
+    const now = Date.now();
+    try {
+      for (let i = 1; i <= 8; i++) {
+        mock.method(Date, "now", () => now + i * STUCK_MS);
+        await tracker.checkNonces([wallet]);
+        assert.equal(tracker.tracked.pending.get(key)!.previousHashes?.length, i);
+      }
+    } finally {
+      mock.restoreAll();
+      silenceConsole();
+    }
+    await confirmAll();
+  });
+
+  it("keeps failed sends apart and moves on to the next nonce", async () => {
+    // ethers answers a repeated nonce lookup from its cache for a moment
+    await sleep(300);
+    chain.fail("eth_sendRawTransaction", { kind: "rpc", code: -32000, message: "unavailable" }, { times: 1 });
+    await tracker.send(wallet);
+    assert.equal(tracker.tracked.failed.size, 1);
+    assert.equal(tracker.inFlight, 0);
+
+    await tracker.send(wallet);
+    const [[, failed]] = tracker.tracked.failed;
+    const [[, sent]] = tracker.tracked.pending;
+    assert.equal(sent.nonce, failed.nonce);
+    await confirmAll();
+  });
+
+  it("attributes confirmed txs to the leader once the schedule arrives", async () => {
+    const [key, info] = Array.from(tracker.tracked.confirmed)[0];
+    tracker.applySchedule(["http://leader"], [
+      { blockNumber: info.blockNumber!, url: "http://leader", address: wallet.address },
+    ]);
+    assert.equal(tracker.tracked.confirmed.get(key)!.gatewayUrl, "http://leader");
+  });
+});